@@ -3,14 +3,24 @@ import cors from 'cors';
 import healthRoutes from './routes/health.js';
 import githubRoutes from './routes/github.js';
 import battlesRoutes from './routes/battles.js';
+import webhooksRoutes from './routes/webhooks.js';
+import autopilotRoutes from './routes/autopilot.js';
 import { logger } from './utils/logger.js';
 import { openCodeService } from './services/OpenCodeService.js';
+import { battleService } from './services/BattleService.js';
+import { reconciliationService } from './services/ReconciliationService.js';
+import { battleStreamService } from './services/BattleStreamService.js';
+import { issueCommentService } from './services/IssueCommentService.js';
+import { webhookService } from './services/WebhookService.js';
+import { autopilotLedger } from './services/AutopilotLedger.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
+// GitHub signs the exact request bytes, so that body must stay raw
+app.use('/api/webhooks/github', express.raw({ type: 'application/json', limit: '5mb' }));
 app.use(express.json());
 
 // Request logging
@@ -23,6 +33,8 @@ app.use((req, res, next) => {
 app.use('/api/health', healthRoutes);
 app.use('/api', githubRoutes);
 app.use('/api/battles', battlesRoutes);
+app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/autopilot', autopilotRoutes);
 
 // Error handling
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -30,6 +42,21 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
   res.status(500).json({ error: 'Internal server error' });
 });
 
+// Subscribe to battle events before anything can emit them
+battleStreamService.initialize();
+issueCommentService.initialize();
+webhookService.initialize();
+await autopilotLedger.initialize();
+
+// Restore persisted battles before serving requests, then deal with
+// worktrees, branches and agent servers left behind by a previous run
+await battleService.initialize();
+try {
+  await reconciliationService.reconcile();
+} catch (error) {
+  logger.error('Startup reconciliation failed', error);
+}
+
 // Start server
 const server = app.listen(PORT, () => {
   logger.info(`Server running on http://localhost:${PORT}`);
@@ -39,16 +66,39 @@ const server = app.listen(PORT, () => {
   logger.info('  GET  /api/config       - Get current config');
   logger.info('  GET  /api/issues       - Fetch open issues');
   logger.info('  GET  /api/battles      - List all battles');
-  logger.info('  POST /api/battles      - Start new battle');
+  logger.info('  POST /api/battles      - Start new battle (queued when all slots are busy)');
+  logger.info('  GET  /api/battles/events - Stream battle changes (SSE)');
+  logger.info('  GET  /api/battles/queue - List queued battles');
+  logger.info('  PUT  /api/battles/queue - Reorder queued battles');
+  logger.info('  DELETE /api/battles/queue/:id - Dequeue battle');
   logger.info('  GET  /api/battles/:id  - Get battle status');
   logger.info('  DELETE /api/battles/:id - Cancel battle');
+  logger.info('  POST /api/battles/:id/resume - Resume interrupted battle');
+  logger.info('  POST /api/battles/:id/agents - Send reinforcements into a running battle');
+  logger.info('  DELETE /api/battles/:id/agents/:agentId - Cancel a single agent');
+  logger.info('  POST /api/battles/:id/agents/:agentId/retry - Retry a single agent');
+  logger.info('  POST /api/battles/:id/agents/:agentId/promote - Open the PR for a review mode candidate');
+  logger.info('  POST /api/battles/:id/messages - Broadcast a message to all running agents');
+  logger.info('  POST /api/battles/:id/agents/:agentId/messages - Send a message to one agent');
+  logger.info('  GET  /api/battles/:id/agents/:agentId/diff - Get an agent diff against its base commit');
+  logger.info('  GET  /api/battles/:id/agents/:agentId/patch - Download an agent patch (mbox)');
+  logger.info('  POST /api/battles/:id/agents/:agentId/branch - Push an agent as a branch');
+  logger.info('  GET  /api/battles/:id/agents/:agentId/transcript - Get an agent transcript (paginated)');
+  logger.info('  GET  /api/webhooks/deliveries - Recent webhook deliveries');
+  logger.info('  POST /api/webhooks/ping - Send a test delivery to every webhook');
+  logger.info('  POST /api/webhooks/github - GitHub webhook receiver (labels, /swarm comments)');
+  logger.info('  GET  /api/autopilot/stats - Tokens used today and lost issues, for autopilot');
 });
 
 // Graceful shutdown handler
 async function gracefulShutdown(signal: string): Promise<void> {
   logger.info(`Received ${signal}, starting graceful shutdown...`);
 
-  // Stop accepting new connections
+  // Pending webhook retries are dropped
+  webhookService.shutdown();
+
+  // Stop accepting new connections, open event streams would keep it waiting
+  battleStreamService.shutdown();
   server.close(() => {
     logger.info('HTTP server closed');
   });
@@ -60,6 +110,20 @@ async function gracefulShutdown(signal: string): Promise<void> {
     logger.error('Error during OpenCodeService shutdown:', error);
   }
 
+  // Post pending issue comment updates, which may record new comment ids
+  try {
+    await issueCommentService.flush();
+  } catch (error) {
+    logger.error('Error during IssueCommentService shutdown:', error);
+  }
+
+  // Persist final battle state
+  try {
+    await battleService.shutdown();
+  } catch (error) {
+    logger.error('Error during BattleService shutdown:', error);
+  }
+
   logger.info('Graceful shutdown complete');
   process.exit(0);
 }
@@ -76,6 +140,11 @@ process.on('uncaughtException', async (error) => {
   } catch (e) {
     logger.error('Error during emergency shutdown:', e);
   }
+  try {
+    await battleService.shutdown();
+  } catch (e) {
+    logger.error('Error persisting battles during emergency shutdown:', e);
+  }
   process.exit(1);
 });
 
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { autopilotLedger } from '../services/AutopilotLedger.js';
+
+const router = Router();
+
+// GET /api/autopilot/stats - Tokens used today and issues lost before
+router.get('/stats', (req, res) => {
+  res.json(autopilotLedger.getStats());
+});
+
+export default router;
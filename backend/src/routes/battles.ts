@@ -3,7 +3,9 @@ import { z } from 'zod';
 import { battleService } from '../services/BattleService.js';
 import { githubService } from '../services/GitHubService.js';
 import { openCodeService } from '../services/OpenCodeService.js';
-import { StartBattleSchema } from '../types/index.js';
+import { transcriptStore } from '../services/TranscriptStore.js';
+import { battleStreamService } from '../services/BattleStreamService.js';
+import { StartBattleSchema, ReorderQueueSchema, ReinforceBattleSchema } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 const PermissionResponseSchema = z.object({
@@ -11,6 +13,19 @@ const PermissionResponseSchema = z.object({
   response: z.enum(['once', 'always', 'reject']),
 });
 
+const MessageSchema = z.object({
+  text: z.string().trim().min(1).max(10000),
+});
+
+const BranchSchema = z.object({
+  branchName: z.string().trim().min(1).max(200),
+});
+
+const TranscriptQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 const router = Router();
 
 // GET /api/battles - List all battles
@@ -19,6 +34,39 @@ router.get('/', (req, res) => {
   res.json(battles);
 });
 
+// GET /api/battles/events - Server-Sent Events stream of battle changes
+router.get('/events', (req, res) => {
+  battleStreamService.addClient(res, battleService.getBattles());
+});
+
+// GET /api/battles/queue - List queued battles, next to start first
+router.get('/queue', (req, res) => {
+  res.json(battleService.getQueuedBattles());
+});
+
+// PUT /api/battles/queue - Reorder queued battles
+router.put('/queue', (req, res) => {
+  try {
+    const input = ReorderQueueSchema.parse(req.body);
+    const queue = battleService.reorderQueue(input.battleIds);
+    res.json(queue);
+  } catch (error) {
+    logger.error('Failed to reorder queue', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to reorder queue',
+    });
+  }
+});
+
+// DELETE /api/battles/queue/:id - Remove a battle from the queue
+router.delete('/queue/:id', (req, res) => {
+  if (!battleService.dequeueBattle(req.params.id)) {
+    res.status(404).json({ error: 'Battle not queued' });
+    return;
+  }
+  res.json({ success: true, message: 'Battle dequeued' });
+});
+
 // GET /api/battles/:id - Get single battle
 router.get('/:id', (req, res) => {
   const battle = battleService.getBattle(req.params.id);
@@ -46,9 +94,10 @@ router.post('/', async (req, res) => {
       return;
     }
 
-    // Start the battle with the specified unit count
-    const battle = await battleService.startBattle(issue, input.unitCount);
-    res.status(201).json(battle);
+    // Start the battle (or queue it if all slots are busy)
+    const { issueNumber, ...options } = input;
+    const battle = await battleService.startBattle(issue, options);
+    res.status(battle.status === 'queued' ? 202 : 201).json(battle);
   } catch (error) {
     logger.error('Failed to start battle', error);
     res.status(400).json({
@@ -76,20 +125,191 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// POST /api/battles/:id/resume - Resume an interrupted battle in its surviving worktrees
+router.post('/:id/resume', async (req, res) => {
+  if (!githubService.isConfigured()) {
+    res.status(400).json({ error: 'GitHub not configured. Call POST /api/config first.' });
+    return;
+  }
+
+  const battle = battleService.getBattle(req.params.id);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+
+  try {
+    const resumed = await battleService.resumeBattle(req.params.id);
+    res.json(resumed);
+  } catch (error) {
+    logger.error('Failed to resume battle', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to resume battle',
+    });
+  }
+});
+
+// POST /api/battles/:id/agents - Send reinforcements into a running battle
+router.post('/:id/agents', async (req, res) => {
+  const battle = battleService.getBattle(req.params.id);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+
+  try {
+    const input = ReinforceBattleSchema.parse(req.body);
+    const reinforced = await battleService.reinforceBattle(req.params.id, input);
+    res.status(201).json(reinforced);
+  } catch (error) {
+    logger.error('Failed to reinforce battle', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to reinforce battle',
+    });
+  }
+});
+
+// DELETE /api/battles/:id/agents/:agentId - Cancel a single agent
+router.delete('/:id/agents/:agentId', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+  if (!battle.agents.some((a) => a.id === agentId)) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const updated = await battleService.cancelAgent(battleId, agentId);
+    res.json(updated);
+  } catch (error) {
+    logger.error('Failed to cancel agent', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to cancel agent',
+    });
+  }
+});
+
+// POST /api/battles/:id/agents/:agentId/retry - Rerun an agent from its base commit
+router.post('/:id/agents/:agentId/retry', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+  if (!battle.agents.some((a) => a.id === agentId)) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const updated = await battleService.retryAgent(battleId, agentId);
+    res.json(updated);
+  } catch (error) {
+    logger.error('Failed to retry agent', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to retry agent',
+    });
+  }
+});
+
+// POST /api/battles/:id/agents/:agentId/promote - Pick a review mode candidate as the winner
+router.post('/:id/agents/:agentId/promote', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+  if (!battle.agents.some((a) => a.id === agentId)) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const updated = await battleService.promoteAgent(battleId, agentId);
+    res.json(updated);
+  } catch (error) {
+    logger.error('Failed to promote agent', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to promote agent',
+    });
+  }
+});
+
+// POST /api/battles/:id/messages - Broadcast a message to every running agent
+router.post('/:id/messages', async (req, res) => {
+  const battle = battleService.getBattle(req.params.id);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+
+  try {
+    const input = MessageSchema.parse(req.body);
+    const agents = await battleService.broadcastMessage(req.params.id, input.text);
+    res.json({ success: true, agentIds: agents.map((a) => a.id) });
+  } catch (error) {
+    logger.error('Failed to broadcast message', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to broadcast message',
+    });
+  }
+});
+
+// POST /api/battles/:id/agents/:agentId/messages - Send a message to one agent
+router.post('/:id/agents/:agentId/messages', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+  if (!battle.agents.some((a) => a.id === agentId)) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const input = MessageSchema.parse(req.body);
+    const agent = await battleService.messageAgent(battleId, agentId, input.text);
+    res.json(agent);
+  } catch (error) {
+    logger.error('Failed to message agent', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to message agent',
+    });
+  }
+});
+
 // DELETE /api/battles/:id/remove - Remove completed battle from list
-router.delete('/:id/remove', (req, res) => {
+router.delete('/:id/remove', async (req, res) => {
   const battle = battleService.getBattle(req.params.id);
   if (!battle) {
     res.status(404).json({ error: 'Battle not found' });
     return;
   }
 
-  if (battle.status === 'pending' || battle.status === 'fighting') {
+  if (
+    battle.status === 'queued' ||
+    battle.status === 'pending' ||
+    battle.status === 'fighting' ||
+    battle.status === 'judging' ||
+    battle.status === 'awaiting_review'
+  ) {
     res.status(400).json({ error: 'Cannot remove active battle. Cancel it first.' });
     return;
   }
 
-  battleService.removeBattle(req.params.id);
+  await battleService.removeBattle(req.params.id);
   res.json({ success: true, message: 'Battle removed' });
 });
 
@@ -156,4 +376,122 @@ router.get('/:id/agents/:agentId/state', (req, res) => {
   });
 });
 
+// GET /api/battles/:id/agents/:agentId/diff - Get an agent's changes as a unified diff
+router.get('/:id/agents/:agentId/diff', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+
+  const agent = battle.agents.find((a) => a.id === agentId);
+  if (!agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const result = await battleService.getAgentDiff(battleId, agentId);
+    if (!result) {
+      res.status(404).json({ error: 'No diff available - worktree was cleaned up' });
+      return;
+    }
+
+    res.json({ agentId, baseCommit: agent.baseCommit ?? null, ...result });
+  } catch (error) {
+    logger.error('Failed to get diff', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to get diff',
+    });
+  }
+});
+
+// GET /api/battles/:id/agents/:agentId/patch - Download an agent's work as a format-patch mbox
+router.get('/:id/agents/:agentId/patch', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+
+  const agent = battle.agents.find((a) => a.id === agentId);
+  if (!agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const patch = await battleService.exportPatch(battleId, agentId);
+    const filename = `issue-${battle.issueNumber}-unit-${agent.unitIndex + 1}.patch`;
+    res.type('application/mbox');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(patch);
+  } catch (error) {
+    logger.error('Failed to export patch', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to export patch',
+    });
+  }
+});
+
+// POST /api/battles/:id/agents/:agentId/branch - Push an agent's work as a branch, without a PR.
+// The name gets a swarm/ prefix if it lacks one, and existing branches are refused.
+router.post('/:id/agents/:agentId/branch', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+  if (!battle.agents.some((a) => a.id === agentId)) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const { branchName } = BranchSchema.parse(req.body);
+    const result = await battleService.pushAgentBranch(battleId, agentId, branchName);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Failed to push agent branch', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to push branch',
+    });
+  }
+});
+
+// GET /api/battles/:id/agents/:agentId/transcript - Get a page of an agent's transcript
+router.get('/:id/agents/:agentId/transcript', async (req, res) => {
+  const { id: battleId, agentId } = req.params;
+
+  const battle = battleService.getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: 'Battle not found' });
+    return;
+  }
+
+  const agent = battle.agents.find((a) => a.id === agentId);
+  if (!agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  try {
+    const { offset, limit } = TranscriptQuerySchema.parse(req.query);
+    const page = await transcriptStore.getPage(battleId, agentId, offset, limit);
+
+    res.json({ agentId, offset, limit, ...page });
+  } catch (error) {
+    logger.error('Failed to get transcript', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to get transcript',
+    });
+  }
+});
+
 export default router;
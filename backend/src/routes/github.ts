@@ -1,11 +1,24 @@
 import { Router } from 'express';
 import { githubService } from '../services/GitHubService.js';
 import { worktreeService } from '../services/WorktreeService.js';
+import { battleService } from '../services/BattleService.js';
 import { ConfigSchema, parseRepoUrl } from '../types/index.js';
+import type { GitHubWebhookConfig, WebhookConfig } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
 
+// Like the PAT, webhook secrets never leave the backend
+function redactWebhooks(webhooks: WebhookConfig[] | undefined) {
+  return webhooks?.map(({ secret, ...webhook }) => ({ ...webhook, signed: !!secret }));
+}
+
+function redactGitHubWebhook(webhook: GitHubWebhookConfig | undefined) {
+  if (!webhook) return undefined;
+  const { secret, ...rest } = webhook;
+  return rest;
+}
+
 // POST /api/config - Set repo URL + PAT
 router.post('/config', async (req, res) => {
   try {
@@ -23,6 +36,20 @@ router.post('/config', async (req, res) => {
       owner: parsed.owner,
       repo: parsed.repo,
       unitCount: input.unitCount,
+      buildCommand: input.buildCommand,
+      lintCommand: input.lintCommand,
+      testCommand: input.testCommand,
+      verifyTimeoutSeconds: input.verifyTimeoutSeconds,
+      prices: input.prices,
+      agentBudget: input.agentBudget,
+      battleBudget: input.battleBudget,
+      permissionRules: input.permissionRules,
+      worktreeRetentionHours: input.worktreeRetentionHours,
+      pullRequest: input.pullRequest,
+      issueComments: input.issueComments,
+      githubApiUrl: input.githubApiUrl,
+      webhooks: input.webhooks,
+      githubWebhook: input.githubWebhook,
     };
 
     // Configure GitHub service
@@ -32,11 +59,30 @@ router.post('/config', async (req, res) => {
     await worktreeService.initialize(githubService.getCloneUrl());
 
     logger.info('Configuration set successfully');
+
+    // Battles queued before the backend was (re)configured can start now
+    battleService.drainQueue().catch((error) => {
+      logger.error('Failed to start queued battles', error);
+    });
     res.json({
       success: true,
       owner: config.owner,
       repo: config.repo,
       unitCount: config.unitCount,
+      buildCommand: config.buildCommand,
+      lintCommand: config.lintCommand,
+      testCommand: config.testCommand,
+      verifyTimeoutSeconds: config.verifyTimeoutSeconds,
+      prices: config.prices,
+      agentBudget: config.agentBudget,
+      battleBudget: config.battleBudget,
+      permissionRules: config.permissionRules,
+      worktreeRetentionHours: config.worktreeRetentionHours,
+      pullRequest: config.pullRequest,
+      issueComments: config.issueComments,
+      githubApiUrl: config.githubApiUrl,
+      webhooks: redactWebhooks(config.webhooks),
+      githubWebhook: redactGitHubWebhook(config.githubWebhook),
     });
   } catch (error) {
     logger.error('Failed to set configuration', error);
@@ -58,6 +104,20 @@ router.get('/config', (req, res) => {
     owner: config.owner,
     repo: config.repo,
     unitCount: config.unitCount,
+    buildCommand: config.buildCommand,
+    lintCommand: config.lintCommand,
+    testCommand: config.testCommand,
+    verifyTimeoutSeconds: config.verifyTimeoutSeconds,
+    prices: config.prices,
+    agentBudget: config.agentBudget,
+    battleBudget: config.battleBudget,
+    permissionRules: config.permissionRules,
+    worktreeRetentionHours: config.worktreeRetentionHours,
+    pullRequest: config.pullRequest,
+    issueComments: config.issueComments,
+    githubApiUrl: config.githubApiUrl,
+    webhooks: redactWebhooks(config.webhooks),
+    githubWebhook: redactGitHubWebhook(config.githubWebhook),
     configured: true,
   });
 });
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { githubService } from '../services/GitHubService.js';
 import { worktreeService } from '../services/WorktreeService.js';
+import { reconciliationService } from '../services/ReconciliationService.js';
 
 const router = Router();
 
@@ -12,6 +13,7 @@ router.get('/', (req, res) => {
       github: githubService.isConfigured(),
       worktree: worktreeService.isReady(),
     },
+    reconciliation: reconciliationService.getLastReport(),
   });
 });
 
@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { githubService } from '../services/GitHubService.js';
+import { webhookService } from '../services/WebhookService.js';
+import { gitHubWebhookService } from '../services/GitHubWebhookService.js';
+import { logger } from '../utils/logger.js';
+
+const DeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const router = Router();
+
+// GET /api/webhooks/deliveries - Recent webhook deliveries, newest first
+router.get('/deliveries', (req, res) => {
+  try {
+    const { limit } = DeliveriesQuerySchema.parse(req.query);
+    res.json(webhookService.getDeliveries(limit));
+  } catch (error) {
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Invalid query',
+    });
+  }
+});
+
+// POST /api/webhooks/ping - Send a test delivery to every configured webhook
+router.post('/ping', (req, res) => {
+  if (!githubService.getConfig()?.webhooks?.length) {
+    res.status(400).json({ error: 'No webhooks configured' });
+    return;
+  }
+
+  res.status(202).json(webhookService.ping());
+});
+
+// POST /api/webhooks/github - GitHub webhook receiver, starts battles on
+// labeled issues and /swarm comments. The body arrives unparsed (see index.ts)
+// since the signature covers the exact bytes.
+router.post('/github', async (req, res) => {
+  if (!gitHubWebhookService.getConfig()) {
+    res.status(404).json({ error: 'GitHub webhook not configured' });
+    return;
+  }
+
+  const rawBody: unknown = req.body;
+  if (!Buffer.isBuffer(rawBody)) {
+    res.status(415).json({ error: 'Expected an application/json body' });
+    return;
+  }
+  if (!gitHubWebhookService.verifySignature(rawBody, req.get('X-Hub-Signature-256'))) {
+    res.status(401).json({ error: 'Invalid signature' });
+    return;
+  }
+
+  try {
+    const outcome = await gitHubWebhookService.handleEvent(
+      req.get('X-GitHub-Event') ?? '',
+      req.get('X-GitHub-Delivery') ?? '',
+      JSON.parse(rawBody.toString('utf8'))
+    );
+    if (outcome.status === 'ignored') {
+      logger.debug(`Ignored GitHub webhook: ${outcome.reason}`);
+    }
+    res.status(outcome.status === 'started' ? 202 : 200).json(outcome);
+  } catch (error) {
+    logger.error('Failed to handle GitHub webhook', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to handle webhook',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AutopilotStats, Battle } from '../types/index.js';
+import { WORKTREES_DIR } from './WorktreeService.js';
+import { battleService } from './BattleService.js';
+import { budgetService } from './BudgetService.js';
+import { eventBus } from './EventBus.js';
+import { logger } from '../utils/logger.js';
+
+const LEDGER_FILE = path.join(WORKTREES_DIR, 'autopilot.json');
+
+// Days of token usage kept for removed battles
+const KEPT_DAYS = 7;
+
+interface LedgerData {
+  // Local date (YYYY-MM-DD) -> tokens of battles started that day and removed since
+  removedTokensByDay: Record<string, number>;
+  defeatedIssues: number[];
+}
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Cancelled battles and ones that never got to try don't count as lost
+function isLostBattle(battle: Battle): boolean {
+  return battle.status === 'defeat' && battle.defeatReason === 'agents_failed';
+}
+
+export class AutopilotLedger {
+  private data: LedgerData = { removedTokensByDay: {}, defeatedIssues: [] };
+  // Serializes writes so an older snapshot never lands after a newer one
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Load the ledger and keep it up to date from the event bus. Removed
+   * battles keep counting against today's tokens, and lost issues stay lost.
+   */
+  async initialize(): Promise<void> {
+    try {
+      const raw = await fs.readFile(LEDGER_FILE, 'utf-8');
+      this.data = { ...this.data, ...(JSON.parse(raw) as Partial<LedgerData>) };
+    } catch {
+      // Nothing recorded yet
+    }
+
+    eventBus.on('battle.ended', ({ battle }) => {
+      if (isLostBattle(battle) && !this.data.defeatedIssues.includes(battle.issueNumber)) {
+        this.data.defeatedIssues.push(battle.issueNumber);
+        this.persist();
+      }
+    });
+
+    eventBus.on('battle.removed', ({ battle }) => {
+      const tokens = this.getBattleTokens(battle);
+      if (tokens === 0) return;
+
+      const day = dayKey(battle.startedAt);
+      this.data.removedTokensByDay[day] = (this.data.removedTokensByDay[day] ?? 0) + tokens;
+      this.persist();
+    });
+  }
+
+  getStats(now = new Date()): AutopilotStats {
+    const today = dayKey(now);
+    const liveTokens = battleService
+      .getBattles()
+      .filter((battle) => dayKey(battle.startedAt) === today)
+      .reduce((sum, battle) => sum + this.getBattleTokens(battle), 0);
+
+    // Battles lost before the ledger existed are still in the list
+    const defeatedIssues = new Set(this.data.defeatedIssues);
+    for (const battle of battleService.getBattles()) {
+      if (isLostBattle(battle)) defeatedIssues.add(battle.issueNumber);
+    }
+
+    return {
+      tokensToday: liveTokens + (this.data.removedTokensByDay[today] ?? 0),
+      defeatedIssues: [...defeatedIssues].sort((a, b) => a - b),
+    };
+  }
+
+  private getBattleTokens(battle: Battle): number {
+    return battle.agents.reduce((sum, agent) => sum + budgetService.getTotalTokens(agent), 0);
+  }
+
+  private persist(): void {
+    const oldest = dayKey(new Date(Date.now() - KEPT_DAYS * 24 * 60 * 60 * 1000));
+    for (const day of Object.keys(this.data.removedTokensByDay)) {
+      if (day < oldest) delete this.data.removedTokensByDay[day];
+    }
+
+    const snapshot = JSON.stringify(this.data, null, 2);
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(WORKTREES_DIR, { recursive: true });
+        const tmpFile = `${LEDGER_FILE}.tmp`;
+        await fs.writeFile(tmpFile, snapshot);
+        await fs.rename(tmpFile, LEDGER_FILE);
+      })
+      .catch((error) => {
+        logger.error('Failed to persist autopilot ledger', error);
+      });
+  }
+}
+
+// Singleton instance
+export const autopilotLedger = new AutopilotLedger();
@@ -1,14 +1,136 @@
 import { nanoid } from 'nanoid';
-import type { Battle, AgentInstance, GitHubIssue, AgentDetailedState } from '../types/index.js';
+import type {
+  Battle,
+  AgentInstance,
+  GitHubIssue,
+  AgentDetailedState,
+  StartBattleOptions,
+  UnitType,
+  IncidentKind,
+  ReinforceBattleInput,
+  PermissionDecision,
+  TranscriptEntry,
+  BattleTrigger,
+  DefeatReason,
+} from '../types/index.js';
+import { UNIT_TYPES } from '../types/index.js';
 import { githubService } from './GitHubService.js';
 import { worktreeService } from './WorktreeService.js';
 import { openCodeService } from './OpenCodeService.js';
+import { battleStore } from './BattleStore.js';
+import { transcriptStore } from './TranscriptStore.js';
+import { diffStore } from './DiffStore.js';
+import { judgeService } from './JudgeService.js';
+import { verificationService } from './VerificationService.js';
+import { budgetService } from './BudgetService.js';
+import { pullRequestService } from './PullRequestService.js';
+import { eventBus } from './EventBus.js';
 import { logger } from '../utils/logger.js';
 
 const MAX_CONCURRENT_BATTLES = 3;
 
+// Matches the unitCount limit of StartBattleSchema
+const MAX_AGENTS_PER_BATTLE = 20;
+
+// Time budgets are checked on this interval, token and cost budgets on every progress event
+const BUDGET_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Finished battles keep their worktrees this long unless the config says otherwise
+const DEFAULT_WORKTREE_RETENTION_HOURS = 24;
+const RETENTION_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
 export class BattleService {
   private battles: Map<string, Battle> = new Map();
+  // IDs of queued battles, next to start first
+  private queue: string[] = [];
+  // Judge mode deadline timers by battle ID
+  private deadlineTimers: Map<string, NodeJS.Timeout> = new Map();
+  private budgetTimer: NodeJS.Timeout | null = null;
+  private retentionTimer: NodeJS.Timeout | null = null;
+  // Review mode battles whose winner is being pushed right now
+  private promoting: Set<string> = new Set();
+  // Last pending permission announced per agent, progress repeats it until answered
+  private announcedPermissions: Map<string, string> = new Map();
+
+  /**
+   * Restore battles persisted by a previous run. Battles that were still in
+   * flight when the backend stopped are marked as interrupted.
+   */
+  async initialize(): Promise<void> {
+    const battles = await battleStore.load();
+    const interrupted: Battle[] = [];
+
+    for (const battle of battles) {
+      if (
+        battle.status === 'pending' ||
+        battle.status === 'fighting' ||
+        battle.status === 'judging'
+      ) {
+        battle.status = 'interrupted';
+        battle.completedAt = new Date();
+
+        for (const agent of battle.agents) {
+          if (
+            agent.status === 'working' ||
+            agent.status === 'pending' ||
+            agent.status === 'verifying'
+          ) {
+            agent.status = 'cancelled';
+            agent.error = 'Interrupted by backend restart';
+            agent.interruptedByRestart = true;
+          }
+        }
+
+        logger.warn(`Battle ${battle.id} for issue #${battle.issueNumber} was interrupted`);
+        interrupted.push(battle);
+      }
+
+      this.battles.set(battle.id, battle);
+    }
+
+    // Queued battles never started, so they simply stay queued
+    this.queue = battles
+      .filter((b) => b.status === 'queued')
+      .sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0))
+      .map((b) => b.id);
+
+    if (battles.length > 0) {
+      logger.info(`Restored ${battles.length} battle(s) from disk`);
+      this.onBattleChanged(...interrupted);
+    }
+
+    this.budgetTimer = setInterval(() => {
+      for (const battle of this.battles.values()) {
+        this.enforceBudgets(battle).catch((error) => {
+          logger.error(`Failed to enforce budgets for battle ${battle.id}`, error);
+        });
+      }
+    }, BUDGET_CHECK_INTERVAL_MS);
+
+    const sweep = () => {
+      this.removeExpiredWorktrees().catch((error) => {
+        logger.error('Failed to remove expired worktrees', error);
+      });
+    };
+    sweep();
+    this.retentionTimer = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Flush pending state to disk before the process exits
+   */
+  async shutdown(): Promise<void> {
+    if (this.budgetTimer) {
+      clearInterval(this.budgetTimer);
+      this.budgetTimer = null;
+    }
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+    await battleStore.flush();
+    await transcriptStore.flush();
+  }
 
   getBattles(): Battle[] {
     return Array.from(this.battles.values());
@@ -20,16 +142,19 @@ export class BattleService {
 
   getActiveBattleCount(): number {
     return Array.from(this.battles.values()).filter(
-      (b) => b.status === 'pending' || b.status === 'fighting'
+      (b) => b.status === 'pending' || b.status === 'fighting' || b.status === 'judging'
     ).length;
   }
 
-  async startBattle(issue: GitHubIssue, unitCount: number): Promise<Battle> {
-    // Check concurrent battle limit
-    if (this.getActiveBattleCount() >= MAX_CONCURRENT_BATTLES) {
-      throw new Error(`Maximum concurrent battles (${MAX_CONCURRENT_BATTLES}) reached`);
-    }
-
+  /**
+   * Create a battle for an issue. If the concurrent battle limit is reached
+   * the battle is queued and starts automatically once a slot frees up.
+   */
+  async startBattle(
+    issue: GitHubIssue,
+    options: StartBattleOptions,
+    trigger?: BattleTrigger
+  ): Promise<Battle> {
     const config = githubService.getConfig();
     if (!config) {
       throw new Error('GitHub not configured');
@@ -47,54 +172,229 @@ export class BattleService {
       status: 'pending',
       agents: [],
       startedAt: new Date(),
+      unitCount: options.unitCount,
+      unitTypes: options.unitTypes,
+      models: options.models,
+      modelsByUnitType: options.modelsByUnitType,
+      priority: options.priority,
+      mode: options.mode,
+      deadlineMinutes: options.deadlineMinutes,
+      reviewer: options.reviewer,
+      agentBudget: options.agentBudget,
+      battleBudget: options.battleBudget,
+      limits: options.limits,
+      maxRespawns: options.maxRespawns,
+      trigger,
     };
 
+    // Counted before the new battle is added, so it doesn't take a slot from itself
+    const atLimit = this.getActiveBattleCount() >= MAX_CONCURRENT_BATTLES;
     this.battles.set(battleId, battle);
 
-    logger.info(`Starting battle ${battleId} for issue #${issue.number}`);
+    if (atLimit) {
+      this.enqueue(battle);
+      logger.info(
+        `Queued battle ${battleId} for issue #${issue.number} ` +
+          `(position ${this.queue.indexOf(battleId) + 1} of ${this.queue.length})`
+      );
+      return battle;
+    }
+
+    this.onBattleChanged(battle);
+    await this.launchBattle(battle);
+    return battle;
+  }
+
+  /**
+   * Create worktrees and start agent sessions for a battle
+   */
+  private async launchBattle(battle: Battle): Promise<void> {
+    battle.status = 'pending';
+    battle.startedAt = new Date();
+    this.onBattleChanged(battle);
+
+    logger.info(`Starting battle ${battle.id} for issue #${battle.issueNumber}`);
 
     try {
       // Create worktrees for all agents
       const worktreePaths = await worktreeService.createWorktreesForBattle(
-        battleId,
-        issue.number,
-        unitCount
+        battle.id,
+        battle.issueNumber,
+        battle.unitCount
       );
 
       // Create agent instances
-      const agents: AgentInstance[] = worktreePaths.map((path, index) => ({
-        id: `${battleId}-agent-${index}`,
-        unitIndex: index,
-        status: 'pending',
-        worktreePath: path,
-        sessionId: null,
-      }));
+      const agents: AgentInstance[] = worktreePaths.map((path, index) => {
+        const unitType = this.getUnitType(battle, index);
+        return {
+          id: `${battle.id}-agent-${index}`,
+          unitIndex: index,
+          unitType,
+          model: battle.models?.[index] ?? battle.modelsByUnitType?.[unitType],
+          status: 'pending',
+          worktreePath: path,
+          sessionId: null,
+        };
+      });
+
+      await this.recordBaseCommits(agents);
 
       battle.agents = agents;
       battle.status = 'fighting';
+      if (battle.mode !== 'race' && battle.deadlineMinutes) {
+        battle.deadlineAt = new Date(Date.now() + battle.deadlineMinutes * 60 * 1000);
+        this.armDeadline(battle);
+      }
+      this.onBattleChanged(battle);
+      eventBus.emit('battle.started', { battle });
 
       // Start all OpenCode sessions in parallel
       for (const agent of agents) {
         this.startAgentSession(battle, agent);
       }
-
-      return battle;
     } catch (error) {
-      logger.error(`Failed to start battle ${battleId}`, error);
+      logger.error(`Failed to start battle ${battle.id}`, error);
       battle.status = 'defeat';
+      battle.defeatReason = 'start_failed';
       battle.completedAt = new Date();
+      this.onBattleChanged(battle);
+      eventBus.emit('battle.ended', { battle });
       throw error;
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Queue
+  // ---------------------------------------------------------------------------
+
+  getQueuedBattles(): Battle[] {
+    return this.queue
+      .map((battleId) => this.battles.get(battleId))
+      .filter((battle): battle is Battle => battle !== undefined);
+  }
+
+  /**
+   * Insert a battle into the queue. Higher priority goes first, FIFO within
+   * the same priority.
+   */
+  private enqueue(battle: Battle): void {
+    battle.status = 'queued';
+    battle.queuedAt = new Date();
+
+    const priority = battle.priority ?? 0;
+    const insertAt = this.queue.findIndex(
+      (battleId) => (this.battles.get(battleId)?.priority ?? 0) < priority
+    );
+    if (insertAt === -1) {
+      this.queue.push(battle.id);
+    } else {
+      this.queue.splice(insertAt, 0, battle.id);
+    }
+
+    this.onQueueChanged();
+  }
+
+  /**
+   * Replace the queue order. The given IDs must be exactly the queued battles.
+   */
+  reorderQueue(battleIds: string[]): Battle[] {
+    const current = new Set(this.queue);
+    if (battleIds.length !== current.size || !battleIds.every((id) => current.has(id))) {
+      throw new Error('Battle IDs must match the current queue exactly');
+    }
+
+    this.queue = [...battleIds];
+    this.onQueueChanged();
+    return this.getQueuedBattles();
+  }
+
+  /**
+   * Remove a queued battle without ever starting it
+   */
+  dequeueBattle(battleId: string): boolean {
+    const index = this.queue.indexOf(battleId);
+    if (index === -1) {
+      return false;
+    }
+
+    const battle = this.battles.get(battleId);
+    this.queue.splice(index, 1);
+    this.battles.delete(battleId);
+    this.onQueueChanged();
+    if (battle) {
+      eventBus.emit('battle.removed', { battle });
+    }
+
+    logger.info(`Dequeued battle ${battleId}`);
+    return true;
+  }
+
+  /**
+   * Start queued battles while there are free slots. Waits until GitHub and
+   * the worktree service are configured (e.g. after a restart).
+   */
+  async drainQueue(): Promise<void> {
+    if (!githubService.isConfigured() || !worktreeService.isReady()) {
+      return;
+    }
+
+    while (this.queue.length > 0 && this.getActiveBattleCount() < MAX_CONCURRENT_BATTLES) {
+      const battleId = this.queue.shift()!;
+      this.onQueueChanged();
+
+      const battle = this.battles.get(battleId);
+      if (!battle) continue;
+
+      logger.info(`Dequeuing battle ${battleId} for issue #${battle.issueNumber}`);
+      try {
+        await this.launchBattle(battle);
+      } catch {
+        // launchBattle already marked the battle as defeated
+      }
+    }
+  }
+
+  private onQueueChanged(): void {
+    this.queue.forEach((battleId, index) => {
+      const battle = this.battles.get(battleId);
+      if (battle) {
+        battle.queuePosition = index;
+      }
+    });
+    this.onBattleChanged(...this.getQueuedBattles());
+  }
+
+  private async recordBaseCommits(agents: AgentInstance[]): Promise<void> {
+    await Promise.all(
+      agents.map(async (agent) => {
+        agent.baseCommit = await worktreeService.getHeadCommit(agent.worktreePath);
+      })
+    );
+  }
+
+  /**
+   * Unit type for the agent at the given index. Requested types are cycled;
+   * without any, every personality is used in turn.
+   */
+  private getUnitType(battle: Battle, index: number): UnitType {
+    const unitTypes = battle.unitTypes?.length ? battle.unitTypes : UNIT_TYPES;
+    return unitTypes[index % unitTypes.length];
+  }
+
   private async startAgentSession(battle: Battle, agent: AgentInstance): Promise<void> {
     agent.status = 'working';
+    agent.startedAt = new Date();
 
     await openCodeService.startSession(
       agent.id,
       agent.worktreePath,
-      battle.issueTitle,
-      battle.issueBody,
+      {
+        issueTitle: battle.issueTitle,
+        issueBody: battle.issueBody,
+        unitType: agent.unitType,
+        model: agent.model,
+        limits: battle.limits,
+      },
       async (agentId, event, data) => {
         this.handleAgentEvent(battle.id, agentId, event, data);
       }
@@ -104,7 +404,7 @@ export class BattleService {
   private async handleAgentEvent(
     battleId: string,
     agentId: string,
-    event: 'working' | 'success' | 'failed' | 'progress',
+    event: 'working' | 'success' | 'failed' | 'progress' | 'stuck' | 'permission' | 'transcript',
     data?: unknown
   ): Promise<void> {
     const battle = this.battles.get(battleId);
@@ -118,83 +418,397 @@ export class BattleService {
       const progressData = data as { detailedState?: AgentDetailedState };
       if (progressData?.detailedState) {
         agent.detailedState = progressData.detailedState;
+        agent.costUsd = budgetService.estimateCost(agent);
+        this.onAgentProgress(battle, agent);
+
+        const permission = progressData.detailedState.pendingPermission;
+        if (permission && this.announcedPermissions.get(agent.id) !== permission.id) {
+          this.announcedPermissions.set(agent.id, permission.id);
+          eventBus.emit('permission.requested', { battle, agent, permission });
+        }
         logger.debug(
           `Battle ${battleId} agent ${agentId} progress: ${progressData.detailedState.activity}`
         );
+        await this.enforceBudgets(battle);
       }
       return;
     }
 
+    if (event === 'transcript') {
+      transcriptStore.record(battleId, agentId, data as TranscriptEntry).catch((error) => {
+        logger.error(`Failed to record transcript for agent ${agentId}`, error);
+      });
+      return;
+    }
+
+    if (event === 'permission') {
+      // A permission request was answered by a rule, keep a record of it
+      const decision = data as PermissionDecision;
+      agent.permissionDecisions = [...(agent.permissionDecisions ?? []), decision];
+      this.onBattleChanged(battle);
+      eventBus.emit('permission.decided', { battle, agent, decision });
+      return;
+    }
+
     logger.info(`Battle ${battleId} agent ${agentId} event: ${event}`);
 
     if (event === 'success') {
+      // A cancelled agent's run may still finish, it can't win after that
+      if (agent.status !== 'working') {
+        return;
+      }
+
       // Check if battle is still active (another agent might have won first)
       if (battle.status !== 'fighting') {
         return;
       }
 
+      // Build, lint and test the changes before they count
+      if (verificationService.isEnabled()) {
+        agent.status = 'verifying';
+        this.onBattleChanged(battle);
+
+        agent.verification = await verificationService.verify(agent.id, agent.worktreePath);
+        this.onBattleChanged(battle);
+
+        // The battle may have been decided or cancelled while we were verifying
+        if (battle.status !== 'fighting') {
+          agent.status = 'cancelled';
+          this.onBattleChanged(battle);
+          return;
+        }
+
+        if (!agent.verification.passed) {
+          const failedStep = agent.verification.steps.find((step) => !step.passed)!;
+          await this.handleAgentFailure(
+            battle,
+            agent,
+            `Verification failed: ${failedStep.name} (${failedStep.command})` +
+              (failedStep.timedOut ? ' timed out' : ` exited with ${failedStep.exitCode}`) +
+              `\n\n${failedStep.output}`
+          );
+          return;
+        }
+      }
+
       agent.status = 'success';
-      await this.handleAgentSuccess(battle, agent);
-    } else if (event === 'failed') {
-      agent.status = 'failed';
-      agent.error = data ? String(data) : 'Unknown error';
+      eventBus.emit('agent.succeeded', { battle, agent });
 
-      // Check if all agents have failed
-      const allFailed = battle.agents.every(
-        (a) => a.status === 'failed' || a.status === 'cancelled'
-      );
+      if (battle.mode !== 'race') {
+        // Hold the candidate until every agent is done, or a human picks it
+        this.onBattleChanged(battle);
+        await this.decideIfSettled(battle);
+        return;
+      }
 
-      if (allFailed) {
-        await this.handleBattleDefeat(battle);
+      await this.handleAgentSuccess(battle, agent);
+    } else if (event === 'failed') {
+      // Already stopped (e.g. over budget), keep the reason it was stopped for
+      if (agent.status !== 'working') {
+        return;
       }
+      const error = (data as { error?: string } | undefined)?.error;
+      await this.handleAgentFailure(battle, agent, error ?? (data ? String(data) : 'Unknown error'));
+    } else if (event === 'stuck') {
+      const { kind, message } = data as { kind: IncidentKind; message: string };
+      await this.handleAgentStuck(battle, agent, kind, message);
     }
   }
 
-  private async handleAgentSuccess(battle: Battle, winningAgent: AgentInstance): Promise<void> {
-    logger.info(`Agent ${winningAgent.id} succeeded! Creating PR...`);
+  /**
+   * An agent's session was killed for timing out, stalling or looping.
+   * Record the incident and respawn the agent in a fresh worktree if the
+   * battle allows it, otherwise count it as failed.
+   */
+  private async handleAgentStuck(
+    battle: Battle,
+    agent: AgentInstance,
+    kind: IncidentKind,
+    message: string
+  ): Promise<void> {
+    if (agent.status !== 'working') return;
 
-    try {
-      // Commit and push the changes
-      const branchName = await worktreeService.commitAndPush(
-        winningAgent.worktreePath,
-        battle.issueNumber
-      );
+    const respawn =
+      battle.status === 'fighting' && (agent.respawnCount ?? 0) < (battle.maxRespawns ?? 0);
+    agent.incidents = [
+      ...(agent.incidents ?? []),
+      { kind, message, at: new Date(), respawned: respawn },
+    ];
+
+    if (!respawn) {
+      await this.handleAgentFailure(battle, agent, message);
+      return;
+    }
 
-      // Create PR
-      const prUrl = await githubService.createPullRequest(
-        branchName,
+    logger.info(`[${agent.id}] Respawning after ${kind}: ${message}`);
+    agent.respawnCount = (agent.respawnCount ?? 0) + 1;
+    agent.status = 'pending';
+    budgetService.recordSessionSpend(agent);
+    agent.detailedState = undefined;
+    agent.costUsd = undefined;
+    this.onBattleChanged(battle);
+
+    try {
+      agent.worktreePath = await worktreeService.recreateAgentWorktree(
+        battle.id,
         battle.issueNumber,
-        battle.issueTitle
+        agent.unitIndex
       );
+      agent.baseCommit = await worktreeService.getHeadCommit(agent.worktreePath);
+    } catch (error) {
+      await this.handleAgentFailure(battle, agent, `Respawn failed: ${error}`);
+      return;
+    }
 
-      // Update battle state
-      battle.status = 'victory';
-      battle.completedAt = new Date();
-      battle.prUrl = prUrl;
-      battle.winningAgentId = winningAgent.id;
+    // The battle may have been decided while the worktree was recreated
+    if (battle.status !== 'fighting') {
+      agent.status = 'cancelled';
+      this.onBattleChanged(battle);
+      return;
+    }
 
-      // Cancel all other agents
-      for (const agent of battle.agents) {
-        if (agent.id !== winningAgent.id && agent.status === 'working') {
-          agent.status = 'cancelled';
-          await openCodeService.cancelSession(agent.id);
-        }
+    this.onBattleChanged(battle);
+    await this.startAgentSession(battle, agent);
+  }
+
+  private async handleAgentFailure(
+    battle: Battle,
+    agent: AgentInstance,
+    error: string
+  ): Promise<void> {
+    agent.status = 'failed';
+    agent.error = error;
+    this.onBattleChanged(battle);
+    eventBus.emit('agent.failed', { battle, agent, error });
+
+    await this.settleAfterFailure(battle);
+  }
+
+  /**
+   * Decide the battle once failed agents leave nothing to wait for
+   */
+  private async settleAfterFailure(battle: Battle): Promise<void> {
+    if (battle.mode !== 'race') {
+      await this.decideIfSettled(battle);
+      return;
+    }
+
+    // Check if all agents have failed
+    const allFailed = battle.agents.every(
+      (a) => a.status === 'failed' || a.status === 'cancelled'
+    );
+
+    if (allFailed) {
+      await this.handleBattleDefeat(battle);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Budgets
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Stop running agents that are over their own budget, or all of them if the
+   * battle as a whole is over budget
+   */
+  private async enforceBudgets(battle: Battle): Promise<void> {
+    if (battle.status !== 'fighting') return;
+
+    const battleViolation = budgetService.checkBattle(battle);
+    const stopped: AgentInstance[] = [];
+
+    for (const agent of battle.agents) {
+      if (agent.status !== 'working') continue;
+
+      const violation = battleViolation
+        ? `Stopped by battle budget: ${battleViolation}`
+        : budgetService.checkAgent(battle, agent);
+      if (!violation) continue;
+
+      logger.warn(`[${agent.id}] ${violation}, cancelling`);
+      // Final: results the session reports after this are ignored
+      agent.status = 'failed';
+      agent.error = violation;
+      stopped.push(agent);
+    }
+
+    if (stopped.length === 0) return;
+    this.onBattleChanged(battle);
+
+    for (const agent of stopped) {
+      await openCodeService.cancelSession(agent.id);
+    }
+
+    await this.settleAfterFailure(battle);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Judge and review modes
+  // ---------------------------------------------------------------------------
+
+  private armDeadline(battle: Battle): void {
+    if (!battle.deadlineAt) return;
+
+    this.clearDeadline(battle.id);
+    const delay = Math.max(0, battle.deadlineAt.getTime() - Date.now());
+    this.deadlineTimers.set(
+      battle.id,
+      setTimeout(() => {
+        this.handleDeadline(battle.id).catch((error) => {
+          logger.error(`Failed to handle deadline for battle ${battle.id}`, error);
+        });
+      }, delay)
+    );
+  }
+
+  private clearDeadline(battleId: string): void {
+    const timer = this.deadlineTimers.get(battleId);
+    if (timer) {
+      clearTimeout(timer);
+      this.deadlineTimers.delete(battleId);
+    }
+  }
+
+  /**
+   * Deadline reached: stop agents that are still working and decide with what we have
+   */
+  private async handleDeadline(battleId: string): Promise<void> {
+    this.deadlineTimers.delete(battleId);
+    const battle = this.battles.get(battleId);
+    if (!battle || battle.status !== 'fighting') {
+      return;
+    }
+
+    logger.info(`Battle ${battleId} deadline reached, stopping remaining agents`);
+
+    for (const agent of battle.agents) {
+      if (agent.status === 'working' || agent.status === 'pending') {
+        agent.status = 'cancelled';
+        agent.error = 'Stopped at battle deadline';
+        await openCodeService.cancelSession(agent.id);
       }
+    }
+    this.onBattleChanged(battle);
 
-      // Cleanup worktrees (keep the battle in memory for UI)
-      await worktreeService.cleanupBattle(battle.id);
+    await this.decideIfSettled(battle);
+  }
+
+  /**
+   * Once no agent is still running, score the candidates and declare the
+   * best one the winner, or hand them to a human in review mode (defeat if
+   * there are none)
+   */
+  private async decideIfSettled(battle: Battle): Promise<void> {
+    // A candidate being promoted decides the battle, or re-runs this if it fails
+    if (battle.status !== 'fighting' || this.promoting.has(battle.id)) return;
+
+    const settled = battle.agents.every(
+      (a) => a.status !== 'working' && a.status !== 'pending' && a.status !== 'verifying'
+    );
+    if (!settled) return;
+
+    this.clearDeadline(battle.id);
+
+    if (!battle.agents.some((a) => a.status === 'success')) {
+      await this.handleBattleDefeat(battle);
+      return;
+    }
+
+    if (battle.mode === 'review') {
+      // Worktrees are kept until promoteAgent picks a winner
+      battle.status = 'awaiting_review';
+      this.onBattleChanged(battle);
+      logger.info(`Battle ${battle.id} is awaiting review`);
+      await this.drainQueue();
+      return;
+    }
+
+    battle.status = 'judging';
+    this.onBattleChanged(battle);
+
+    let winner: AgentInstance | null = null;
+    try {
+      winner = await judgeService.pickWinner(battle);
+    } catch (error) {
+      logger.error(`Failed to judge battle ${battle.id}`, error);
+    }
+    this.onBattleChanged(battle);
+
+    if (!winner) {
+      await this.handleBattleDefeat(battle);
+      return;
+    }
+
+    await this.handleAgentSuccess(battle, winner);
+  }
+
+  private async handleAgentSuccess(battle: Battle, winningAgent: AgentInstance): Promise<void> {
+    if (this.promoting.has(battle.id)) return;
 
-      logger.info(`Battle ${battle.id} victory! PR: ${prUrl}`);
+    try {
+      await this.declareVictory(battle, winningAgent);
     } catch (error) {
       logger.error(`Failed to handle agent success for battle ${battle.id}`, error);
       // Mark as defeat if we can't create the PR
-      await this.handleBattleDefeat(battle);
+      await this.handleBattleDefeat(battle, 'pr_failed');
     }
   }
 
-  private async handleBattleDefeat(battle: Battle): Promise<void> {
+  /**
+   * Push the winner's changes, open the PR, stop everyone else and clean up.
+   * Throws if the PR could not be created, leaving the battle as it was.
+   */
+  private async declareVictory(battle: Battle, winningAgent: AgentInstance): Promise<void> {
+    logger.info(`Agent ${winningAgent.id} succeeded! Creating PR...`);
+
+    // Commit and push the changes
+    const branchName = await worktreeService.commitAndPush(
+      winningAgent.worktreePath,
+      battle.issueNumber
+    );
+
+    // Create PR
+    const content = await pullRequestService.buildContent(battle, winningAgent);
+    const prUrl = await githubService.createPullRequest(branchName, battle.issueNumber, content);
+
+    // Update battle state
+    battle.status = 'victory';
+    battle.completedAt = new Date();
+    battle.prUrl = prUrl;
+    battle.winningAgentId = winningAgent.id;
+    this.clearDeadline(battle.id);
+
+    // Cancel all other agents (a review mode candidate can be picked mid-battle)
+    for (const agent of battle.agents) {
+      if (
+        agent.id !== winningAgent.id &&
+        (agent.status === 'working' || agent.status === 'pending')
+      ) {
+        agent.status = 'cancelled';
+        await openCodeService.cancelSession(agent.id);
+      }
+    }
+
+    this.onBattleChanged(battle);
+    eventBus.emit('pr.created', { battle, agent: winningAgent, prUrl });
+    eventBus.emit('battle.ended', { battle });
+
+    // Cleanup worktrees (keep the battle in memory for UI)
+    await this.retireWorktrees(battle);
+
+    logger.info(`Battle ${battle.id} victory! PR: ${prUrl}`);
+
+    await this.drainQueue();
+  }
+
+  private async handleBattleDefeat(
+    battle: Battle,
+    reason: DefeatReason = 'agents_failed'
+  ): Promise<void> {
     battle.status = 'defeat';
+    battle.defeatReason = reason;
     battle.completedAt = new Date();
+    this.clearDeadline(battle.id);
 
     // Cancel any remaining sessions
     for (const agent of battle.agents) {
@@ -203,23 +817,34 @@ export class BattleService {
         await openCodeService.cancelSession(agent.id);
       }
     }
+    this.onBattleChanged(battle);
+    eventBus.emit('battle.ended', { battle });
 
     // Cleanup worktrees
-    await worktreeService.cleanupBattle(battle.id);
+    await this.retireWorktrees(battle);
+
+    logger.info(`Battle ${battle.id} defeat (${reason})`);
 
-    logger.info(`Battle ${battle.id} defeat - all agents failed`);
+    await this.drainQueue();
   }
 
   async cancelBattle(battleId: string): Promise<void> {
     const battle = this.battles.get(battleId);
-    if (!battle || battle.status !== 'fighting') {
+    if (battle?.status === 'queued') {
+      this.dequeueBattle(battleId);
+      return;
+    }
+    // Cancelling a battle awaiting review discards its candidates
+    if (!battle || (battle.status !== 'fighting' && battle.status !== 'awaiting_review')) {
       return;
     }
 
     logger.info(`Cancelling battle ${battleId}`);
 
     battle.status = 'defeat';
+    battle.defeatReason = 'cancelled';
     battle.completedAt = new Date();
+    this.clearDeadline(battleId);
 
     // Cancel all agent sessions
     for (const agent of battle.agents) {
@@ -228,13 +853,457 @@ export class BattleService {
         await openCodeService.cancelSession(agent.id);
       }
     }
+    this.onBattleChanged(battle);
+    eventBus.emit('battle.ended', { battle });
 
     // Cleanup worktrees
-    await worktreeService.cleanupBattle(battleId);
+    await this.retireWorktrees(battle);
+
+    await this.drainQueue();
+  }
+
+  /**
+   * Flag an interrupted battle whose worktrees survived a restart so it can be resumed
+   */
+  markResumable(battleId: string): void {
+    const battle = this.battles.get(battleId);
+    if (!battle || battle.status !== 'interrupted') {
+      return;
+    }
+
+    battle.resumable = true;
+    this.onBattleChanged(battle);
+  }
+
+  /**
+   * Send more agents into a running battle
+   */
+  async reinforceBattle(battleId: string, input: ReinforceBattleInput): Promise<Battle> {
+    const battle = this.battles.get(battleId);
+    if (!battle) {
+      throw new Error('Battle not found');
+    }
+    if (battle.status !== 'fighting') {
+      throw new Error('Only fighting battles can be reinforced');
+    }
+    if (battle.agents.length + input.unitCount > MAX_AGENTS_PER_BATTLE) {
+      throw new Error(`A battle can have at most ${MAX_AGENTS_PER_BATTLE} agents`);
+    }
+
+    const firstIndex = battle.agents.length;
+    logger.info(`Reinforcing battle ${battleId} with ${input.unitCount} agent(s)`);
+
+    const worktreePaths = await worktreeService.addAgentWorktrees(
+      battle.id,
+      battle.issueNumber,
+      firstIndex,
+      input.unitCount
+    );
+
+    const agents: AgentInstance[] = worktreePaths.map((path, i) => {
+      const unitType = input.unitTypes?.length
+        ? input.unitTypes[i % input.unitTypes.length]
+        : this.getUnitType(battle, firstIndex + i);
+      return {
+        id: `${battle.id}-agent-${firstIndex + i}`,
+        unitIndex: firstIndex + i,
+        unitType,
+        model:
+          input.models?.[i] ??
+          input.modelsByUnitType?.[unitType] ??
+          battle.modelsByUnitType?.[unitType],
+        status: 'pending',
+        worktreePath: path,
+        sessionId: null,
+      };
+    });
+
+    await this.recordBaseCommits(agents);
+
+    battle.agents.push(...agents);
+    battle.unitCount = battle.agents.length;
+
+    // The battle may have been decided while the worktrees were created
+    if (battle.status !== 'fighting') {
+      for (const agent of agents) {
+        agent.status = 'cancelled';
+      }
+      this.onBattleChanged(battle);
+      return battle;
+    }
+
+    this.onBattleChanged(battle);
+    for (const agent of agents) {
+      this.startAgentSession(battle, agent);
+    }
+
+    return battle;
+  }
+
+  /**
+   * Stop a single agent. The battle carries on with the others, unless it
+   * was the last one running.
+   */
+  async cancelAgent(battleId: string, agentId: string): Promise<Battle> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+    if (battle.status !== 'fighting') {
+      throw new Error('Battle is not fighting');
+    }
+    if (agent.status !== 'working' && agent.status !== 'pending') {
+      throw new Error(`Agent is ${agent.status}, not running`);
+    }
+
+    logger.info(`Cancelling agent ${agentId} in battle ${battleId}`);
+    agent.status = 'cancelled';
+    agent.error = 'Cancelled by user';
+    this.onBattleChanged(battle);
+
+    await openCodeService.cancelSession(agentId);
+    await this.settleAfterFailure(battle);
+
+    return battle;
+  }
+
+  /**
+   * Send follow-up guidance to one running agent
+   */
+  async messageAgent(battleId: string, agentId: string, text: string): Promise<AgentInstance> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+    if (battle.status !== 'fighting' || agent.status !== 'working') {
+      throw new Error('Agent is not running');
+    }
+
+    if (!(await openCodeService.sendMessage(agentId, text))) {
+      throw new Error('Failed to send message to agent');
+    }
+
+    this.recordMessage(battle, agent, text, false);
+    return agent;
+  }
+
+  /**
+   * Send the same guidance to every running agent of a battle. Returns the
+   * agents that received it.
+   */
+  async broadcastMessage(battleId: string, text: string): Promise<AgentInstance[]> {
+    const battle = this.battles.get(battleId);
+    if (!battle) {
+      throw new Error('Battle not found');
+    }
+    if (battle.status !== 'fighting') {
+      throw new Error('Battle is not fighting');
+    }
+
+    const reached: AgentInstance[] = [];
+    for (const agent of battle.agents) {
+      if (agent.status !== 'working') continue;
+      if (await openCodeService.sendMessage(agent.id, text)) {
+        this.recordMessage(battle, agent, text, true);
+        reached.push(agent);
+      }
+    }
+
+    if (reached.length === 0) {
+      throw new Error('No running agents to message');
+    }
+    return reached;
+  }
+
+  private recordMessage(battle: Battle, agent: AgentInstance, text: string, broadcast: boolean): void {
+    agent.messages = [...(agent.messages ?? []), { text, sentAt: new Date(), broadcast }];
+    this.onBattleChanged(battle);
+  }
+
+  /**
+   * Rerun a failed or cancelled agent from scratch: reset its worktree to
+   * the commit it started from and start a new session
+   */
+  async retryAgent(battleId: string, agentId: string): Promise<Battle> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+    if (battle.status !== 'fighting') {
+      throw new Error('Battle is not fighting');
+    }
+    if (agent.status !== 'failed' && agent.status !== 'cancelled') {
+      throw new Error(`Agent is ${agent.status}, only failed or cancelled agents can be retried`);
+    }
+    if (!agent.baseCommit) {
+      throw new Error('No base commit recorded for this agent');
+    }
+
+    logger.info(`Retrying agent ${agentId} in battle ${battleId}`);
+    agent.status = 'pending';
+    this.onBattleChanged(battle);
+
+    try {
+      await worktreeService.resetWorktree(agent.worktreePath, agent.baseCommit);
+    } catch (error) {
+      agent.status = 'failed';
+      agent.error = `Retry failed: ${error}`;
+      this.onBattleChanged(battle);
+      throw error;
+    }
+
+    agent.error = undefined;
+    agent.sessionId = null;
+    budgetService.recordSessionSpend(agent);
+    agent.detailedState = undefined;
+    agent.verification = undefined;
+    agent.costUsd = undefined;
+    this.onBattleChanged(battle);
+
+    await this.startAgentSession(battle, agent);
+    return battle;
   }
 
-  removeBattle(battleId: string): void {
+  /**
+   * Make a review mode candidate the winner: push it, open the PR and clean
+   * up the other worktrees. Candidates can be picked as soon as they succeed,
+   * other agents are stopped then. If the PR fails the battle keeps waiting.
+   */
+  async promoteAgent(battleId: string, agentId: string): Promise<Battle> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+    if (battle.mode !== 'review') {
+      throw new Error('Battle is not in review mode');
+    }
+    if (battle.status !== 'awaiting_review' && battle.status !== 'fighting') {
+      throw new Error(`Battle is ${battle.status}, not awaiting review`);
+    }
+    if (agent.status !== 'success') {
+      throw new Error(`Agent is ${agent.status}, only successful candidates can be promoted`);
+    }
+    if (this.promoting.has(battleId)) {
+      throw new Error('A candidate is already being promoted');
+    }
+
+    logger.info(`Promoting agent ${agentId} in battle ${battleId}`);
+    this.promoting.add(battleId);
+    try {
+      await this.declareVictory(battle, agent);
+    } catch (error) {
+      this.promoting.delete(battleId);
+      // Agents may have finished while the PR was being created
+      await this.decideIfSettled(battle);
+      throw error;
+    }
+    this.promoting.delete(battleId);
+    return battle;
+  }
+
+  /**
+   * Unified diff of an agent's work against the commit it started from. Read
+   * from the worktree while it exists, otherwise from the snapshot taken
+   * before cleanup. Returns null if neither is available.
+   */
+  async getAgentDiff(
+    battleId: string,
+    agentId: string
+  ): Promise<{ diff: string; live: boolean } | null> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+
+    if (await worktreeService.worktreeExists(agent.worktreePath)) {
+      const diff = await worktreeService.getDiff(agent.worktreePath, agent.baseCommit);
+      return { diff, live: true };
+    }
+
+    const diff = await diffStore.load(battle.id, agent.id);
+    return diff === null ? null : { diff, live: false };
+  }
+
+  /**
+   * An agent's work as a `git format-patch` mbox, while its worktree exists
+   */
+  async exportPatch(battleId: string, agentId: string): Promise<string> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+    await this.assertWorktreeExists(agent);
+
+    const base = agent.baseCommit ?? (await worktreeService.getHeadCommit(agent.worktreePath));
+    return worktreeService.formatPatch(agent.worktreePath, base, this.describeAttempt(battle, agent));
+  }
+
+  /**
+   * Push an agent's work as a new swarm/ branch without opening a PR
+   */
+  async pushAgentBranch(
+    battleId: string,
+    agentId: string,
+    branchName: string
+  ): Promise<{ branchName: string; commit: string }> {
+    const { battle, agent } = this.getAgentOrThrow(battleId, agentId);
+    await this.assertWorktreeExists(agent);
+
+    return worktreeService.pushAsBranch(
+      agent.worktreePath,
+      branchName,
+      this.describeAttempt(battle, agent)
+    );
+  }
+
+  private async assertWorktreeExists(agent: AgentInstance): Promise<void> {
+    if (!(await worktreeService.worktreeExists(agent.worktreePath))) {
+      throw new Error('Worktree was cleaned up');
+    }
+  }
+
+  // Commit message for work exported outside of a PR
+  private describeAttempt(battle: Battle, agent: AgentInstance): string {
+    return (
+      `Attempt at issue #${battle.issueNumber} by unit ${agent.unitIndex + 1}\n\n` +
+      battle.issueTitle
+    );
+  }
+
+  /**
+   * A finished battle no longer needs its worktrees to fight. Snapshot the
+   * diffs, then keep the worktrees for exports until the retention period
+   * ends, or delete them right away if retention is off.
+   */
+  private async retireWorktrees(battle: Battle): Promise<void> {
+    await this.snapshotDiffs(battle.id);
+
+    const hours =
+      githubService.getConfig()?.worktreeRetentionHours ?? DEFAULT_WORKTREE_RETENTION_HOURS;
+    if (hours > 0) {
+      battle.worktreesExpireAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+      this.onBattleChanged(battle);
+      logger.info(
+        `Keeping worktrees of battle ${battle.id} until ${battle.worktreesExpireAt.toISOString()}`
+      );
+      return;
+    }
+
+    await worktreeService.cleanupBattle(battle.id);
+  }
+
+  private async removeExpiredWorktrees(): Promise<void> {
+    const now = Date.now();
+    for (const battle of this.battles.values()) {
+      if (!battle.worktreesExpireAt || battle.worktreesExpireAt.getTime() > now) continue;
+
+      logger.info(`Retention of battle ${battle.id} ended, removing its worktrees`);
+      battle.worktreesExpireAt = undefined;
+      this.onBattleChanged(battle);
+      await worktreeService.cleanupBattle(battle.id);
+    }
+  }
+
+  /**
+   * Save the diff of every agent that ran, so losing candidates can still be
+   * inspected after the battle's worktrees are deleted
+   */
+  async snapshotDiffs(battleId: string): Promise<void> {
+    const battle = this.battles.get(battleId);
+    if (!battle) return;
+
+    for (const agent of battle.agents) {
+      if (!agent.startedAt) continue;
+
+      try {
+        const diff = await worktreeService.getDiff(agent.worktreePath, agent.baseCommit);
+        await diffStore.save(battle.id, agent.id, diff);
+      } catch (error) {
+        logger.warn(`[${agent.id}] Failed to snapshot diff: ${error}`);
+      }
+    }
+  }
+
+  private getAgentOrThrow(
+    battleId: string,
+    agentId: string
+  ): { battle: Battle; agent: AgentInstance } {
+    const battle = this.battles.get(battleId);
+    if (!battle) {
+      throw new Error('Battle not found');
+    }
+    const agent = battle.agents.find((a) => a.id === agentId);
+    if (!agent) {
+      throw new Error('Agent not found');
+    }
+    return { battle, agent };
+  }
+
+  /**
+   * Restart agent sessions for an interrupted battle in its existing worktrees
+   */
+  async resumeBattle(battleId: string): Promise<Battle> {
+    const battle = this.battles.get(battleId);
+    if (!battle) {
+      throw new Error('Battle not found');
+    }
+    if (battle.status !== 'interrupted' || !battle.resumable) {
+      throw new Error('Battle is not resumable');
+    }
+    if (this.getActiveBattleCount() >= MAX_CONCURRENT_BATTLES) {
+      throw new Error(`Maximum concurrent battles (${MAX_CONCURRENT_BATTLES}) reached`);
+    }
+
+    // Only agents the restart cut off mid-run and that still have a worktree
+    // come back, not ones that were cancelled on purpose
+    const worktrees = await worktreeService.listAgentWorktrees(battleId);
+    const agents = battle.agents.filter(
+      (a) => a.interruptedByRestart && worktrees.includes(a.worktreePath)
+    );
+    if (agents.length === 0) {
+      throw new Error('No agent worktrees left to resume');
+    }
+
+    logger.info(`Resuming battle ${battleId} with ${agents.length} agent(s)`);
+
+    battle.status = 'fighting';
+    battle.completedAt = undefined;
+    battle.resumable = false;
+    this.armDeadline(battle);
+
+    for (const agent of agents) {
+      agent.status = 'pending';
+      agent.error = undefined;
+      agent.interruptedByRestart = undefined;
+      agent.sessionId = null;
+      // The new session reports its own tokens from zero
+      budgetService.recordSessionSpend(agent);
+      agent.detailedState = undefined;
+      agent.costUsd = undefined;
+      this.startAgentSession(battle, agent);
+    }
+    this.onBattleChanged(battle);
+    eventBus.emit('battle.started', { battle });
+
+    return battle;
+  }
+
+  async removeBattle(battleId: string): Promise<void> {
+    const battle = this.battles.get(battleId);
     this.battles.delete(battleId);
+    this.onBattleChanged();
+    if (battle) {
+      for (const agent of battle.agents) {
+        this.announcedPermissions.delete(agent.id);
+      }
+      eventBus.emit('battle.removed', { battle });
+    }
+
+    await transcriptStore.removeBattle(battleId);
+    await diffStore.removeBattle(battleId);
+
+    // Worktrees kept around for resuming or exports are no longer needed
+    if (battle?.resumable || battle?.worktreesExpireAt) {
+      await worktreeService.cleanupBattle(battleId);
+    }
+  }
+
+  /**
+   * Persist every battle and announce the ones that changed on the event bus
+   */
+  private onBattleChanged(...changed: Battle[]): void {
+    battleStore.save(this.getBattles());
+    for (const battle of changed) {
+      eventBus.emit('battle.changed', { battle });
+    }
+  }
+
+  // Progress is by far the most frequent change, so it gets its own event
+  private onAgentProgress(battle: Battle, agent: AgentInstance): void {
+    battleStore.save(this.getBattles());
+    eventBus.emit('agent.progress', { battle, agent });
   }
 }
 
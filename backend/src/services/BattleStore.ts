@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Battle } from '../types/index.js';
+import { UNIT_TYPES } from '../types/index.js';
+import { WORKTREES_DIR } from './WorktreeService.js';
+import { logger } from '../utils/logger.js';
+
+const STORE_FILE = path.join(WORKTREES_DIR, 'battles.json');
+
+// Progress events arrive many times per second, so coalesce writes
+const SAVE_DEBOUNCE_MS = 1000;
+
+export class BattleStore {
+  private battles: Battle[] | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  // Serializes writes so an older snapshot never lands after a newer one
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Load all persisted battles. Returns an empty list if nothing was saved yet.
+   */
+  async load(): Promise<Battle[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(STORE_FILE, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(raw) as Battle[];
+      // Dates are serialized as ISO strings
+      return data.map((battle) => ({
+        ...battle,
+        // Battles saved before unitCount existed
+        unitCount: battle.unitCount ?? battle.agents.length,
+        mode: battle.mode ?? 'race',
+        // Agents saved before unit types were recorded
+        agents: battle.agents.map((agent) => ({
+          ...agent,
+          unitType: agent.unitType ?? UNIT_TYPES[agent.unitIndex % UNIT_TYPES.length],
+          startedAt: agent.startedAt ? new Date(agent.startedAt) : undefined,
+          incidents: agent.incidents?.map((incident) => ({
+            ...incident,
+            at: new Date(incident.at),
+          })),
+          messages: agent.messages?.map((message) => ({
+            ...message,
+            sentAt: new Date(message.sentAt),
+          })),
+          permissionDecisions: agent.permissionDecisions?.map((decision) => ({
+            ...decision,
+            decidedAt: new Date(decision.decidedAt),
+          })),
+        })),
+        startedAt: new Date(battle.startedAt),
+        completedAt: battle.completedAt ? new Date(battle.completedAt) : undefined,
+        queuedAt: battle.queuedAt ? new Date(battle.queuedAt) : undefined,
+        deadlineAt: battle.deadlineAt ? new Date(battle.deadlineAt) : undefined,
+        worktreesExpireAt: battle.worktreesExpireAt
+          ? new Date(battle.worktreesExpireAt)
+          : undefined,
+      }));
+    } catch (error) {
+      logger.error(`Failed to parse battle store ${STORE_FILE}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Schedule a snapshot of the given battles. The objects are serialized at
+   * write time, so in-place mutations made before the write are included.
+   */
+  save(battles: Battle[]): void {
+    this.battles = battles;
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.enqueueWrite();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Schedule another write of the last saved battles, after changing one of
+   * them in place outside BattleService
+   */
+  markDirty(): void {
+    if (this.battles) {
+      this.save(this.battles);
+    }
+  }
+
+  /**
+   * Write any pending snapshot immediately.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.enqueueWrite();
+    }
+    await this.writeChain;
+  }
+
+  private enqueueWrite(): void {
+    const battles = this.battles;
+    if (!battles) return;
+
+    this.writeChain = this.writeChain
+      .then(() => this.write(battles))
+      .catch((error) => {
+        logger.error('Failed to persist battles', error);
+      });
+  }
+
+  private async write(battles: Battle[]): Promise<void> {
+    await fs.mkdir(WORKTREES_DIR, { recursive: true });
+
+    // Write to a temp file and rename so a crash never leaves a truncated store
+    const tmpFile = `${STORE_FILE}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(battles, null, 2));
+    await fs.rename(tmpFile, STORE_FILE);
+  }
+}
+
+// Singleton instance
+export const battleStore = new BattleStore();
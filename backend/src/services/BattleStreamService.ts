@@ -0,0 +1,143 @@
+import type { Response } from 'express';
+import type {
+  AgentDetailedState,
+  AgentInstance,
+  Battle,
+  BattleStreamEvent,
+} from '../types/index.js';
+import { eventBus } from './EventBus.js';
+import { logger } from '../utils/logger.js';
+
+// Proxies and browsers drop connections that stay silent for too long
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export class BattleStreamService {
+  private clients: Set<Response> = new Set();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  // Last detailed state sent per agent, progress events only carry what changed since
+  private sentStates: Map<string, AgentDetailedState> = new Map();
+
+  /**
+   * Forward battle changes from the event bus to connected clients
+   */
+  initialize(): void {
+    eventBus.on('battle.changed', ({ battle }) => this.publishBattle(battle));
+    eventBus.on('battle.removed', ({ battle }) => this.publishRemoved(battle));
+    eventBus.on('agent.progress', ({ battle, agent }) => this.publishProgress(battle, agent));
+  }
+
+  /**
+   * Turn a request into a Server-Sent Events stream, starting with a snapshot
+   * of every battle
+   */
+  addClient(res: Response, battles: Battle[]): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    this.clients.add(res);
+    res.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+    logger.debug(`Event stream client connected (${this.clients.size} total)`);
+
+    this.write(res, { type: 'snapshot', battles });
+    this.startHeartbeat();
+  }
+
+  private publishBattle(battle: Battle): void {
+    // Clients get the full state here, so later deltas build on it
+    for (const agent of battle.agents) {
+      this.rememberState(agent);
+    }
+    this.broadcast({ type: 'battle', battle });
+  }
+
+  private publishRemoved(battle: Battle): void {
+    for (const agent of battle.agents) {
+      this.sentStates.delete(agent.id);
+    }
+    this.broadcast({ type: 'battle_removed', battleId: battle.id });
+  }
+
+  private publishProgress(battle: Battle, agent: AgentInstance): void {
+    if (!agent.detailedState) return;
+
+    const current = agent.detailedState;
+    const previous = this.sentStates.get(agent.id);
+    const delta: Partial<AgentDetailedState> = {};
+    const cleared: (keyof AgentDetailedState)[] = [];
+    const keys = new Set([...Object.keys(current), ...Object.keys(previous ?? {})]);
+
+    for (const key of keys as Set<keyof AgentDetailedState>) {
+      if (current[key] === undefined) {
+        if (previous?.[key] !== undefined) cleared.push(key);
+      } else if (!previous || JSON.stringify(current[key]) !== JSON.stringify(previous[key])) {
+        (delta as Record<string, unknown>)[key] = current[key];
+      }
+    }
+    this.rememberState(agent);
+
+    this.broadcast({
+      type: 'progress',
+      battleId: battle.id,
+      agentId: agent.id,
+      detailedState: delta,
+      cleared,
+      costUsd: agent.costUsd,
+    });
+  }
+
+  /**
+   * End every open stream, so the HTTP server can close
+   */
+  shutdown(): void {
+    this.stopHeartbeat();
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+  }
+
+  private rememberState(agent: AgentInstance): void {
+    if (agent.detailedState) {
+      // OpenCodeService keeps mutating the same object, so compare against a copy
+      this.sentStates.set(agent.id, structuredClone(agent.detailedState));
+    }
+  }
+
+  private broadcast(event: BattleStreamEvent): void {
+    for (const client of this.clients) {
+      this.write(client, event);
+    }
+  }
+
+  private write(client: Response, event: BattleStreamEvent): void {
+    client.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      for (const client of this.clients) {
+        client.write(': ping\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+// Singleton instance
+export const battleStreamService = new BattleStreamService();
@@ -0,0 +1,123 @@
+import type { AgentInstance, Battle, Budget, ModelRef } from '../types/index.js';
+import { githubService } from './GitHubService.js';
+
+const DEFAULT_PRICE_KEY = 'default';
+
+export class BudgetService {
+  /**
+   * Estimate the cost of an agent's tokens from the configured price table.
+   * Returns undefined if there is no price for its model.
+   */
+  estimateCost(agent: AgentInstance): number | undefined {
+    const tokens = agent.detailedState?.tokens;
+    if (!tokens) return undefined;
+
+    const price = this.getPrice(agent.model);
+    if (!price) return undefined;
+
+    return (
+      (tokens.input * price.inputPerMillion +
+        (tokens.output + tokens.reasoning) * price.outputPerMillion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Return why an agent is over its budget, or null if it isn't
+   */
+  checkAgent(battle: Battle, agent: AgentInstance): string | null {
+    const budget = battle.agentBudget ?? githubService.getConfig()?.agentBudget;
+    if (!budget) return null;
+
+    const elapsedMs = agent.startedAt ? Date.now() - agent.startedAt.getTime() : 0;
+    return this.check(budget, this.getTokenTotal(agent), agent.costUsd, elapsedMs);
+  }
+
+  /**
+   * Return why a battle is over its budget, or null if it isn't. Tokens and
+   * cost are summed over all agents.
+   */
+  checkBattle(battle: Battle): string | null {
+    const budget = battle.battleBudget ?? githubService.getConfig()?.battleBudget;
+    if (!budget) return null;
+
+    // Earlier sessions count too, or respawns and retries would reset the budget
+    const tokens = battle.agents.reduce((sum, agent) => sum + this.getTotalTokens(agent), 0);
+    // A partial sum would understate the cost, so only enforce it when every agent is priced
+    const costs = battle.agents.map((agent) => this.getTotalCost(agent));
+    const cost = costs.includes(undefined)
+      ? undefined
+      : costs.reduce<number>((sum, agentCost) => sum + (agentCost ?? 0), 0);
+    const elapsedMs = Date.now() - battle.startedAt.getTime();
+
+    return this.check(budget, tokens, cost, elapsedMs);
+  }
+
+  private check(
+    budget: Budget,
+    tokens: number,
+    costUsd: number | undefined,
+    elapsedMs: number
+  ): string | null {
+    if (budget.maxTokens && tokens > budget.maxTokens) {
+      return (
+        `Token budget exceeded (${tokens.toLocaleString()} / ` +
+        `${budget.maxTokens.toLocaleString()} tokens)`
+      );
+    }
+    if (budget.maxCostUsd && costUsd !== undefined && costUsd > budget.maxCostUsd) {
+      return `Cost budget exceeded ($${costUsd.toFixed(2)} / $${budget.maxCostUsd.toFixed(2)})`;
+    }
+    if (budget.maxMinutes && elapsedMs > budget.maxMinutes * 60 * 1000) {
+      return `Time budget exceeded (${budget.maxMinutes} min)`;
+    }
+    return null;
+  }
+
+  /**
+   * Input, output and reasoning tokens of the agent's current session
+   */
+  getTokenTotal(agent: AgentInstance): number {
+    const tokens = agent.detailedState?.tokens;
+    return tokens ? tokens.input + tokens.output + tokens.reasoning : 0;
+  }
+
+  /**
+   * Tokens of every session the agent has run
+   */
+  getTotalTokens(agent: AgentInstance): number {
+    return (agent.spentTokens ?? 0) + this.getTokenTotal(agent);
+  }
+
+  /**
+   * Cost of every session the agent has run, undefined if any of it is unpriced
+   */
+  getTotalCost(agent: AgentInstance): number | undefined {
+    if (this.getTokenTotal(agent) > 0 && agent.costUsd === undefined) return undefined;
+    if ((agent.spentTokens ?? 0) > 0 && agent.spentCostUsd === undefined) return undefined;
+    return (agent.spentCostUsd ?? 0) + (agent.costUsd ?? 0);
+  }
+
+  /**
+   * Add the current session's spend to the agent's running totals. Call this
+   * before detailedState and costUsd are reset for a new session.
+   */
+  recordSessionSpend(agent: AgentInstance): void {
+    if (this.getTokenTotal(agent) === 0) return;
+
+    const cost = this.getTotalCost(agent);
+    agent.spentTokens = this.getTotalTokens(agent);
+    agent.spentCostUsd = cost;
+  }
+
+  private getPrice(model?: ModelRef) {
+    const prices = githubService.getConfig()?.prices;
+    if (!prices) return undefined;
+
+    const key = model ? `${model.providerID}/${model.modelID}` : DEFAULT_PRICE_KEY;
+    return prices[key] ?? prices[DEFAULT_PRICE_KEY];
+  }
+}
+
+// Singleton instance
+export const budgetService = new BudgetService();
@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WORKTREES_DIR } from './WorktreeService.js';
+
+// Snapshots of agents' diffs, taken before their worktrees are deleted
+const DIFFS_DIR = path.join(WORKTREES_DIR, 'diffs');
+
+export class DiffStore {
+  async save(battleId: string, agentId: string, diff: string): Promise<void> {
+    const file = this.getFile(battleId, agentId);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, diff);
+  }
+
+  /**
+   * Read a snapshot. Returns null if none was taken.
+   */
+  async load(battleId: string, agentId: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getFile(battleId, agentId), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  async removeBattle(battleId: string): Promise<void> {
+    await fs.rm(path.join(DIFFS_DIR, battleId), { recursive: true, force: true });
+  }
+
+  private getFile(battleId: string, agentId: string): string {
+    return path.join(DIFFS_DIR, battleId, `${agentId}.diff`);
+  }
+}
+
+// Singleton instance
+export const diffStore = new DiffStore();
@@ -0,0 +1,52 @@
+import type { BattleEventMap, BattleEventName } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export type BattleEventListener<K extends BattleEventName> = (
+  payload: BattleEventMap[K]
+) => void | Promise<void>;
+
+export class EventBus {
+  private listeners: Map<BattleEventName, Set<BattleEventListener<never>>> = new Map();
+
+  /**
+   * Subscribe to an event. Returns a function that unsubscribes again.
+   */
+  on<K extends BattleEventName>(event: K, listener: BattleEventListener<K>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as BattleEventListener<never>);
+
+    return () => {
+      listeners.delete(listener as BattleEventListener<never>);
+    };
+  }
+
+  /**
+   * Call every listener of an event synchronously, in subscription order.
+   * A listener that throws or rejects is logged and never affects the
+   * emitter or the other listeners.
+   */
+  emit<K extends BattleEventName>(event: K, payload: BattleEventMap[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    for (const listener of [...listeners] as BattleEventListener<K>[]) {
+      try {
+        const result = listener(payload);
+        if (result instanceof Promise) {
+          result.catch((error) => {
+            logger.error(`Listener for ${event} failed`, error);
+          });
+        }
+      } catch (error) {
+        logger.error(`Listener for ${event} failed`, error);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const eventBus = new EventBus();
@@ -1,5 +1,6 @@
 import { Octokit } from '@octokit/rest';
-import type { GitHubIssue, GameConfig } from '../types/index.js';
+import type { GitHubIssue, GameConfig, PullRequestOptions } from '../types/index.js';
+import type { PullRequestContent } from './PullRequestService.js';
 import { logger } from '../utils/logger.js';
 
 export class GitHubService {
@@ -10,6 +11,8 @@ export class GitHubService {
     this.config = config;
     this.octokit = new Octokit({
       auth: config.pat,
+      // Defaults to api.github.com when unset
+      baseUrl: config.githubApiUrl,
     });
     logger.info(`GitHubService configured for ${config.owner}/${config.repo}`);
   }
@@ -48,6 +51,7 @@ export class GitHubService {
         ),
         state: issue.state as 'open' | 'closed',
         url: issue.html_url,
+        createdAt: issue.created_at,
       }));
     } catch (error) {
       logger.error('Failed to fetch issues', error);
@@ -77,6 +81,7 @@ export class GitHubService {
         ),
         state: issue.state as 'open' | 'closed',
         url: issue.html_url,
+        createdAt: issue.created_at,
       };
     } catch (error) {
       logger.error(`Failed to fetch issue #${issueNumber}`, error);
@@ -87,12 +92,14 @@ export class GitHubService {
   async createPullRequest(
     branchName: string,
     issueNumber: number,
-    issueTitle: string
+    content: PullRequestContent
   ): Promise<string> {
     if (!this.octokit || !this.config) {
       throw new Error('GitHubService not configured');
     }
 
+    const options = this.config.pullRequest;
+
     try {
       // Get the default branch
       const { data: repo } = await this.octokit.repos.get({
@@ -103,13 +110,19 @@ export class GitHubService {
       const { data: pr } = await this.octokit.pulls.create({
         owner: this.config.owner,
         repo: this.config.repo,
-        title: `Fix: ${issueTitle}`,
+        title: content.title,
         head: branchName,
         base: repo.default_branch,
-        body: `This PR was automatically generated by the RTS Issue Battle game to fix issue #${issueNumber}.\n\nCloses #${issueNumber}`,
+        body: content.body,
+        draft: options?.draft ?? false,
       });
 
       logger.info(`Created PR #${pr.number} for issue #${issueNumber}`);
+
+      if (options) {
+        await this.decoratePullRequest(pr.number, options);
+      }
+
       return pr.html_url;
     } catch (error) {
       logger.error(`Failed to create PR for issue #${issueNumber}`, error);
@@ -117,6 +130,75 @@ export class GitHubService {
     }
   }
 
+  // Labels, assignees and reviewers are best effort: the PR already exists,
+  // so a missing label or an unknown reviewer shouldn't fail the battle
+  private async decoratePullRequest(prNumber: number, options: PullRequestOptions): Promise<void> {
+    if (!this.octokit || !this.config) return;
+    const { owner, repo } = this.config;
+
+    if (options.labels?.length) {
+      try {
+        await this.octokit.issues.addLabels({ owner, repo, issue_number: prNumber, labels: options.labels });
+      } catch (error) {
+        logger.warn(`Failed to add labels to PR #${prNumber}: ${error}`);
+      }
+    }
+
+    if (options.assignees?.length) {
+      try {
+        await this.octokit.issues.addAssignees({
+          owner,
+          repo,
+          issue_number: prNumber,
+          assignees: options.assignees,
+        });
+      } catch (error) {
+        logger.warn(`Failed to add assignees to PR #${prNumber}: ${error}`);
+      }
+    }
+
+    if (options.reviewers?.length || options.teamReviewers?.length) {
+      try {
+        await this.octokit.pulls.requestReviewers({
+          owner,
+          repo,
+          pull_number: prNumber,
+          reviewers: options.reviewers ?? [],
+          team_reviewers: options.teamReviewers ?? [],
+        });
+      } catch (error) {
+        logger.warn(`Failed to request reviewers for PR #${prNumber}: ${error}`);
+      }
+    }
+  }
+
+  async createIssueComment(issueNumber: number, body: string): Promise<number> {
+    if (!this.octokit || !this.config) {
+      throw new Error('GitHubService not configured');
+    }
+
+    const { data: comment } = await this.octokit.issues.createComment({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      issue_number: issueNumber,
+      body,
+    });
+    return comment.id;
+  }
+
+  async updateIssueComment(commentId: number, body: string): Promise<void> {
+    if (!this.octokit || !this.config) {
+      throw new Error('GitHubService not configured');
+    }
+
+    await this.octokit.issues.updateComment({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      comment_id: commentId,
+      body,
+    });
+  }
+
   getCloneUrl(): string {
     if (!this.config) {
       throw new Error('GitHubService not configured');
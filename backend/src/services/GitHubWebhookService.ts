@@ -0,0 +1,293 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type {
+  BattleStatus,
+  BattleTrigger,
+  GitHubIssue,
+  GitHubWebhookConfig,
+  UnitType,
+} from '../types/index.js';
+import { StartBattleSchema, UNIT_TYPES } from '../types/index.js';
+import { githubService } from './GitHubService.js';
+import { battleService } from './BattleService.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_LABEL = 'swarm';
+
+// Battles in these states already cover their issue
+const BUSY_STATUSES: BattleStatus[] = [
+  'queued',
+  'pending',
+  'fighting',
+  'judging',
+  'awaiting_review',
+];
+
+// GitHub retries failed deliveries with the same id
+const MAX_REMEMBERED_DELIVERIES = 500;
+
+// Only people with write access can spend tokens on an issue
+const TRUSTED_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+// "/swarm", "/swarm 5" or "/swarm 3 mage archer" at the start of a line
+const SWARM_COMMAND = /^\/swarm\b(.*)$/m;
+
+// The parts of GitHub's webhook payloads we use
+const IssuePayloadSchema = z.object({
+  id: z.number(),
+  number: z.number(),
+  title: z.string(),
+  body: z.string().nullable(),
+  state: z.enum(['open', 'closed']),
+  html_url: z.string(),
+  created_at: z.string(),
+  labels: z.array(z.union([z.string(), z.object({ name: z.string() })])).default([]),
+  pull_request: z.unknown().optional(),
+});
+
+const WebhookPayloadSchema = z.object({
+  action: z.string().optional(),
+  repository: z.object({ full_name: z.string() }).optional(),
+  sender: z.object({ login: z.string() }).optional(),
+  issue: IssuePayloadSchema.optional(),
+  label: z.object({ name: z.string() }).optional(),
+  comment: z
+    .object({
+      body: z.string(),
+      author_association: z.string(),
+    })
+    .optional(),
+});
+
+type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+export interface WebhookOutcome {
+  status: 'started' | 'ignored';
+  reason?: string;
+  battleId?: string;
+}
+
+// Unit count and personalities asked for by a label or a /swarm comment
+interface SwarmRequest {
+  unitCount: number;
+  unitTypes?: UnitType[];
+}
+
+export class GitHubWebhookService {
+  private seenDeliveries: string[] = [];
+  // Issues a battle is being created for right now
+  private starting: Set<number> = new Set();
+
+  getConfig(): GitHubWebhookConfig | null {
+    return githubService.getConfig()?.githubWebhook ?? null;
+  }
+
+  /**
+   * Check X-Hub-Signature-256 against the raw request body
+   */
+  verifySignature(rawBody: Buffer, signature: string | undefined): boolean {
+    const config = this.getConfig();
+    if (!config || !signature?.startsWith('sha256=')) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      `sha256=${createHmac('sha256', config.secret).update(rawBody).digest('hex')}`
+    );
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Start a battle if the event asks for one. Unrelated events, repeated
+   * deliveries and issues that already have a battle are ignored.
+   */
+  async handleEvent(event: string, deliveryId: string, body: unknown): Promise<WebhookOutcome> {
+    const config = this.getConfig();
+    const repoConfig = githubService.getConfig();
+    if (!config || !repoConfig) {
+      return { status: 'ignored', reason: 'GitHub webhook not configured' };
+    }
+
+    if (event === 'ping') {
+      return { status: 'ignored', reason: 'pong' };
+    }
+
+    if (deliveryId && this.seenDeliveries.includes(deliveryId)) {
+      return { status: 'ignored', reason: 'Delivery already handled' };
+    }
+
+    const parsed = WebhookPayloadSchema.safeParse(body);
+    if (!parsed.success) {
+      return { status: 'ignored', reason: 'Unexpected payload' };
+    }
+    const payload = parsed.data;
+
+    const repoName = `${repoConfig.owner}/${repoConfig.repo}`.toLowerCase();
+    if (payload.repository?.full_name.toLowerCase() !== repoName) {
+      return { status: 'ignored', reason: 'Event is for another repository' };
+    }
+
+    const issue = payload.issue;
+    if (!issue || issue.pull_request) {
+      return { status: 'ignored', reason: 'Not an issue' };
+    }
+    if (issue.state !== 'open') {
+      return { status: 'ignored', reason: 'Issue is closed' };
+    }
+
+    const source = event === 'issues' ? 'label' : event === 'issue_comment' ? 'comment' : null;
+    if (!source) {
+      return { status: 'ignored', reason: `Unhandled event ${event}` };
+    }
+
+    const request =
+      source === 'label'
+        ? this.getLabelRequest(payload, config, repoConfig.unitCount)
+        : this.getCommentRequest(payload, config, repoConfig.unitCount);
+    if ('reason' in request) {
+      return { status: 'ignored', reason: request.reason };
+    }
+
+    // Checked last, after everything that doesn't depend on battle state
+    if (this.starting.has(issue.number) || this.hasBattle(issue.number)) {
+      return { status: 'ignored', reason: `Issue #${issue.number} already has a battle` };
+    }
+
+    const trigger: BattleTrigger = {
+      source,
+      sender: payload.sender?.login ?? 'unknown',
+      deliveryId,
+    };
+    return this.startBattle(this.toGitHubIssue(issue), request, config, trigger);
+  }
+
+  private getLabelRequest(
+    payload: WebhookPayload,
+    config: GitHubWebhookConfig,
+    defaultUnitCount: number
+  ): SwarmRequest | { reason: string } {
+    const label = config.label ?? DEFAULT_LABEL;
+    if (payload.action !== 'labeled' || payload.label?.name !== label) {
+      return { reason: `Not the "${label}" label being added` };
+    }
+    return { unitCount: config.unitCount ?? defaultUnitCount, unitTypes: config.unitTypes };
+  }
+
+  private getCommentRequest(
+    payload: WebhookPayload,
+    config: GitHubWebhookConfig,
+    defaultUnitCount: number
+  ): SwarmRequest | { reason: string } {
+    const comment = payload.comment;
+    if (payload.action !== 'created' || !comment) {
+      return { reason: 'Not a new comment' };
+    }
+
+    const match = comment.body.match(SWARM_COMMAND);
+    if (!match) {
+      return { reason: 'No /swarm command' };
+    }
+    if (!TRUSTED_ASSOCIATIONS.includes(comment.author_association)) {
+      return { reason: 'Commenter lacks write access' };
+    }
+
+    const request: SwarmRequest = {
+      unitCount: config.unitCount ?? defaultUnitCount,
+      unitTypes: config.unitTypes,
+    };
+    const unitTypes: UnitType[] = [];
+
+    for (const arg of match[1].split(/[\s,]+/).filter(Boolean)) {
+      const name = arg.toLowerCase().replace(/s$/, '');
+      if (/^\d+$/.test(arg)) {
+        request.unitCount = Number(arg);
+      } else if ((UNIT_TYPES as readonly string[]).includes(name)) {
+        unitTypes.push(name as UnitType);
+      } else {
+        return { reason: `Unknown /swarm argument "${arg}"` };
+      }
+    }
+
+    if (unitTypes.length > 0) {
+      request.unitTypes = unitTypes;
+    }
+    return request;
+  }
+
+  private hasBattle(issueNumber: number): boolean {
+    return battleService
+      .getBattles()
+      .some((battle) => battle.issueNumber === issueNumber && BUSY_STATUSES.includes(battle.status));
+  }
+
+  private async startBattle(
+    issue: GitHubIssue,
+    request: SwarmRequest,
+    config: GitHubWebhookConfig,
+    trigger: BattleTrigger
+  ): Promise<WebhookOutcome> {
+    const input = StartBattleSchema.safeParse({
+      issueNumber: issue.number,
+      unitCount: request.unitCount,
+      unitTypes: request.unitTypes,
+      mode: config.mode,
+    });
+    if (!input.success) {
+      return { status: 'ignored', reason: `Invalid battle request: ${input.error.message}` };
+    }
+
+    const { issueNumber, ...options } = input.data;
+    logger.info(
+      `Starting battle for issue #${issueNumber} from a GitHub ${trigger.source} ` +
+        `by ${trigger.sender} (${options.unitCount} units)`
+    );
+
+    this.starting.add(issueNumber);
+    this.rememberDelivery(trigger.deliveryId);
+    const started = battleService.startBattle(issue, options, trigger);
+    started
+      .catch((error) => {
+        logger.error(`Failed to start battle for issue #${issueNumber} from webhook`, error);
+        // Let GitHub's redelivery of this event try again
+        this.forgetDelivery(trigger.deliveryId);
+      })
+      .finally(() => {
+        this.starting.delete(issueNumber);
+      });
+
+    // Answer GitHub before worktrees are created, it gives up after 10 seconds.
+    // The battle is registered synchronously, so it can already be looked up.
+    const battle = battleService.getBattles().find((b) => b.trigger === trigger);
+    return { status: 'started', battleId: battle?.id };
+  }
+
+  // Only deliveries that started a battle are remembered, so a failed one can be redelivered
+  private rememberDelivery(deliveryId: string): void {
+    if (!deliveryId) return;
+    this.seenDeliveries.push(deliveryId);
+    if (this.seenDeliveries.length > MAX_REMEMBERED_DELIVERIES) {
+      this.seenDeliveries.shift();
+    }
+  }
+
+  private forgetDelivery(deliveryId: string): void {
+    this.seenDeliveries = this.seenDeliveries.filter((id) => id !== deliveryId);
+  }
+
+  private toGitHubIssue(issue: z.infer<typeof IssuePayloadSchema>): GitHubIssue {
+    return {
+      id: issue.id,
+      number: issue.number,
+      title: issue.title,
+      body: issue.body || '',
+      labels: issue.labels.map((label) => (typeof label === 'string' ? label : label.name)),
+      state: issue.state,
+      url: issue.html_url,
+      createdAt: issue.created_at,
+    };
+  }
+}
+
+// Singleton instance
+export const gitHubWebhookService = new GitHubWebhookService();
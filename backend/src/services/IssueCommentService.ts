@@ -0,0 +1,190 @@
+import type { AgentInstance, AgentStatus, Battle, BattleStatus } from '../types/index.js';
+import { UNIT_PERSONALITIES } from '../types/index.js';
+import { githubService } from './GitHubService.js';
+import { battleStore } from './BattleStore.js';
+import { eventBus } from './EventBus.js';
+import { logger } from '../utils/logger.js';
+
+// Battles change many times per second while agents stream, so coalesce edits
+// to stay well clear of GitHub's secondary rate limits
+const UPDATE_DEBOUNCE_MS = 5000;
+
+const ACTIVE_STATUSES: BattleStatus[] = ['pending', 'fighting', 'judging', 'awaiting_review'];
+
+const STATUS_LABELS: Record<BattleStatus, string> = {
+  queued: 'Queued',
+  pending: 'Preparing',
+  fighting: 'In progress',
+  judging: 'Judging candidates',
+  awaiting_review: 'Awaiting review',
+  victory: 'Victory',
+  defeat: 'Defeat',
+  interrupted: 'Interrupted',
+};
+
+const AGENT_STATUS_LABELS: Record<AgentStatus, string> = {
+  pending: '⏳ pending',
+  working: '⚔️ working',
+  verifying: '🔍 verifying',
+  success: '✅ success',
+  failed: '❌ failed',
+  cancelled: '➖ cancelled',
+};
+
+export class IssueCommentService {
+  // Battles changed since the last update, keyed by id
+  private dirty: Map<string, Battle> = new Map();
+  private updateTimer: NodeJS.Timeout | null = null;
+  // Serializes updates so a battle never gets two comments
+  private updateChain: Promise<void> = Promise.resolve();
+  // Body last posted per battle, to skip edits that change nothing
+  private lastBodies: Map<string, string> = new Map();
+
+  /**
+   * Keep comments in step with battle changes from the event bus
+   */
+  initialize(): void {
+    eventBus.on('battle.changed', ({ battle }) => this.scheduleUpdate(battle));
+    eventBus.on('agent.progress', ({ battle }) => this.scheduleUpdate(battle));
+    eventBus.on('battle.removed', ({ battle }) => {
+      this.dirty.delete(battle.id);
+      this.lastBodies.delete(battle.id);
+    });
+  }
+
+  // Does nothing unless the repository has issue comments turned on
+  private scheduleUpdate(battle: Battle): void {
+    if (!githubService.isConfigured() || !githubService.getConfig()?.issueComments) {
+      return;
+    }
+    if (!this.needsComment(battle)) {
+      return;
+    }
+
+    this.dirty.set(battle.id, battle);
+    if (!this.updateTimer) {
+      this.updateTimer = setTimeout(() => {
+        this.updateTimer = null;
+        this.updateChain = this.updateChain.then(() => this.updateComments());
+      }, UPDATE_DEBOUNCE_MS);
+    }
+  }
+
+  /**
+   * Post any queued updates right away, e.g. before the process exits
+   */
+  async flush(): Promise<void> {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = null;
+      this.updateChain = this.updateChain.then(() => this.updateComments());
+    }
+    await this.updateChain;
+  }
+
+  // Running battles always, finished ones only to post their final state once
+  private needsComment(battle: Battle): boolean {
+    if (ACTIVE_STATUSES.includes(battle.status)) {
+      return true;
+    }
+    return (
+      battle.status !== 'queued' &&
+      battle.issueCommentId !== undefined &&
+      battle.issueCommentStatus !== battle.status
+    );
+  }
+
+  private async updateComments(): Promise<void> {
+    const battles = [...this.dirty.values()];
+    this.dirty.clear();
+
+    let created = false;
+    for (const battle of battles) {
+      const body = this.renderComment(battle);
+      if (battle.issueCommentId !== undefined && this.lastBodies.get(battle.id) === body) {
+        continue;
+      }
+
+      try {
+        if (battle.issueCommentId === undefined) {
+          battle.issueCommentId = await githubService.createIssueComment(battle.issueNumber, body);
+          created = true;
+          logger.info(`Posted progress comment on issue #${battle.issueNumber}`);
+        } else {
+          await githubService.updateIssueComment(battle.issueCommentId, body);
+        }
+        this.lastBodies.set(battle.id, body);
+        battle.issueCommentStatus = battle.status;
+      } catch (error) {
+        logger.warn(`Failed to update progress comment on issue #${battle.issueNumber}: ${error}`);
+      }
+    }
+
+    // Persist new comment ids so a restart edits the comment instead of adding one
+    if (created) {
+      battleStore.markDirty();
+    }
+  }
+
+  private renderComment(battle: Battle): string {
+    const lines = [`### 🤖 Agent swarm: ${STATUS_LABELS[battle.status]}`, ''];
+
+    const unitCount = battle.agents.length || battle.unitCount;
+    lines.push(
+      `${unitCount} unit${unitCount === 1 ? '' : 's'} attacking this issue in ${battle.mode} mode.`
+    );
+
+    if (battle.agents.length > 0) {
+      lines.push('', '| Unit | Approach | Model | Status |', '| --- | --- | --- | --- |');
+      for (const agent of battle.agents) {
+        const personality = UNIT_PERSONALITIES[agent.unitType];
+        const model = agent.model ? `${agent.model.providerID}/${agent.model.modelID}` : 'default';
+        lines.push(
+          `| ${agent.unitIndex + 1} | ${personality.name} (${personality.approach}) | ${model} | ` +
+            `${AGENT_STATUS_LABELS[agent.status]} |`
+        );
+      }
+    }
+
+    if (battle.status === 'victory') {
+      const winner = battle.agents.find((agent) => agent.id === battle.winningAgentId);
+      lines.push(
+        '',
+        `🏆 ${winner ? `Unit ${winner.unitIndex + 1} won` : 'Won'}. Pull request: ${battle.prUrl ?? 'unknown'}`
+      );
+    } else if (battle.status === 'defeat') {
+      lines.push('', '**Every agent failed:**', '');
+      for (const agent of battle.agents) {
+        lines.push(`- Unit ${agent.unitIndex + 1}: ${this.describeFailure(agent)}`);
+      }
+    } else {
+      const failed = battle.agents.filter((agent) => agent.status === 'failed');
+      if (failed.length > 0) {
+        lines.push('', '**Failures so far:**', '');
+        for (const agent of failed) {
+          lines.push(`- Unit ${agent.unitIndex + 1}: ${this.describeFailure(agent)}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private describeFailure(agent: AgentInstance): string {
+    if (agent.error) {
+      // Keep the table of reasons readable when an error carries a stack or log
+      return agent.error.split('\n')[0].slice(0, 300);
+    }
+    const failedSteps = agent.verification?.steps.filter((step) => !step.passed) ?? [];
+    if (failedSteps.length > 0) {
+      return `${failedSteps.map((step) => step.name).join(', ')} failed`;
+    }
+    if (agent.status === 'cancelled') {
+      return 'cancelled';
+    }
+    return 'finished without a usable fix';
+  }
+}
+
+// Singleton instance
+export const issueCommentService = new IssueCommentService();
@@ -0,0 +1,90 @@
+import type { Battle, AgentInstance, JudgeScore } from '../types/index.js';
+import { worktreeService } from './WorktreeService.js';
+import { openCodeService } from './OpenCodeService.js';
+import { logger } from '../utils/logger.js';
+
+// Scoring weights. The reviewer dominates, and smaller diffs touching fewer
+// files break ties. Tests don't score: verification already fails every
+// agent whose tests fail, so they only gate who becomes a candidate.
+const SCORE_WEIGHTS = {
+  reviewerPerPoint: 10,
+  perLineChanged: -0.1,
+  maxLinePenalty: -50,
+  perFileTouched: -3,
+  maxFilePenalty: -30,
+} as const;
+
+export class JudgeService {
+  /**
+   * Score every successful candidate of a battle and return the best one,
+   * or null if there are no candidates
+   */
+  async pickWinner(battle: Battle): Promise<AgentInstance | null> {
+    const candidates = battle.agents.filter((a) => a.status === 'success');
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    logger.info(`Judging ${candidates.length} candidate(s) for battle ${battle.id}`);
+
+    // Score sequentially - reviewer servers are heavy
+    for (const agent of candidates) {
+      agent.judgeScore = await this.scoreCandidate(battle, agent);
+      logger.info(`[${agent.id}] Judge score: ${agent.judgeScore.total.toFixed(1)}`);
+    }
+
+    return candidates.reduce((best, agent) =>
+      agent.judgeScore!.total > best.judgeScore!.total ? agent : best
+    );
+  }
+
+  private async scoreCandidate(battle: Battle, agent: AgentInstance): Promise<JudgeScore> {
+    // Against the agent's starting point, so work it committed counts too
+    const base = agent.baseCommit ?? 'HEAD';
+    const stats = await worktreeService.getDiffStats(agent.worktreePath, base).catch((error) => {
+      logger.warn(`[${agent.id}] Failed to read diff stats: ${error}`);
+      return { filesTouched: 0, linesAdded: 0, linesDeleted: 0 };
+    });
+
+    // Reported for display only: candidates were verified before they
+    // counted as successful, so a test step here always passed
+    const testStep = agent.verification?.steps.find((step) => step.name === 'test');
+    const testsPassed = testStep ? testStep.passed : null;
+
+    let reviewerScore: number | null = null;
+    if (battle.reviewer) {
+      const diff = await worktreeService.getDiff(agent.worktreePath, base).catch(() => '');
+      if (diff) {
+        reviewerScore = await openCodeService.reviewDiff(
+          battle.issueTitle,
+          battle.issueBody,
+          diff
+        );
+      }
+    }
+
+    let total = 0;
+    if (reviewerScore !== null) total += reviewerScore * SCORE_WEIGHTS.reviewerPerPoint;
+    total += Math.max(
+      SCORE_WEIGHTS.maxLinePenalty,
+      (stats.linesAdded + stats.linesDeleted) * SCORE_WEIGHTS.perLineChanged
+    );
+    total += Math.max(
+      SCORE_WEIGHTS.maxFilePenalty,
+      stats.filesTouched * SCORE_WEIGHTS.perFileTouched
+    );
+
+    return {
+      total,
+      testsPassed,
+      filesTouched: stats.filesTouched,
+      linesAdded: stats.linesAdded,
+      linesDeleted: stats.linesDeleted,
+      reviewerScore,
+      scoredAt: Date.now(),
+    };
+  }
+}
+
+// Singleton instance
+export const judgeService = new JudgeService();
@@ -1,20 +1,74 @@
 import { logger } from '../utils/logger.js';
 import { createOpencode } from '@opencode-ai/sdk';
+import type { Config } from '@opencode-ai/sdk';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import type { AgentDetailedState, AgentActivity, PendingPermission, AgentTodo } from '../types/index.js';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AgentDetailedState, AgentActivity, PendingPermission, AgentTodo, UnitType, ModelRef, IncidentKind, SessionLimits, PermissionResponse, TranscriptEntry } from '../types/index.js';
+import { UNIT_PERSONALITIES } from '../types/index.js';
+import { permissionPolicyService } from './PermissionPolicyService.js';
+import type { PermissionPolicyMatch } from './PermissionPolicyService.js';
 
 const execAsync = promisify(exec);
 
-// Timeout for agent sessions (2 hours)
-const AGENT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+// Defaults for when an agent session counts as stuck
+const DEFAULT_TIMEOUT_MINUTES = 2 * 60;
+const DEFAULT_STALL_MINUTES = 15;
+const DEFAULT_MAX_REPEATED_TOOL_ERRORS = 5;
 
 // Health check interval (30 seconds)
 const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
 
+// Diffs larger than this are truncated before being sent to the reviewer
+const MAX_REVIEW_DIFF_CHARS = 50000;
+
+// A reviewer that hasn't answered by then gives no score
+const REVIEW_TIMEOUT_MS = 5 * 60 * 1000;
+
+// The reviewer only reads the diff it is given. Nothing it could be talked
+// into by the issue text may touch files, run commands or wait on a human.
+const REVIEWER_CONFIG: Config = {
+  permission: {
+    edit: 'deny',
+    bash: 'deny',
+    webfetch: 'deny',
+    external_directory: 'deny',
+  },
+};
+const REVIEWER_TOOLS = { write: false, edit: false, patch: false, bash: false, webfetch: false };
+
+// Tool output beyond this is cut off in transcripts
+const MAX_TRANSCRIPT_OUTPUT_CHARS = 20000;
+
+// Agent and reviewer servers get ports from BASE_AGENT_PORT up to
+// BASE_AGENT_PORT + AGENT_PORT_SCAN_RANGE, the range scanned for orphans
+const BASE_AGENT_PORT = 4096;
+const AGENT_PORT_SCAN_RANGE = 200;
+
+// A listener left behind in the agent port range
+export interface OrphanedServer {
+  port: number;
+  pid: number;
+  // Command line is an OpenCode server on that port, so it's safe to kill
+  isAgentServer: boolean;
+}
+
 // Type for the SDK's server and client
 type OpencodeInstance = Awaited<ReturnType<typeof createOpencode>>;
 
+// What an agent session is asked to do
+export interface SessionOptions {
+  issueTitle: string;
+  issueBody: string;
+  // Personality whose instructions are added to the prompt
+  unitType?: UnitType;
+  // Model to prompt with instead of the server default
+  model?: ModelRef;
+  limits?: SessionLimits;
+}
+
 export interface AgentSession {
   agentId: string;
   worktreePath: string;
@@ -30,11 +84,20 @@ export interface AgentSession {
   startedAt: Date;
   // Real-time detailed state
   detailedState: AgentDetailedState;
+  onEvent: AgentEventCallback;
+  model?: ModelRef;
+  // Stall and loop detection
+  limits: Required<SessionLimits>;
+  lastEventAt: number;
+  lastStepAt: number;
+  toolErrorStreak: { key: string; count: number } | null;
+  // Messages sent to the agent, so their parts are transcribed as prompts
+  userMessageIds: Set<string>;
 }
 
 export type AgentEventCallback = (
   agentId: string,
-  event: 'working' | 'success' | 'failed' | 'progress',
+  event: 'working' | 'success' | 'failed' | 'progress' | 'stuck' | 'permission' | 'transcript',
   data?: unknown
 ) => void;
 
@@ -57,15 +120,16 @@ function createInitialDetailedState(): AgentDetailedState {
 export class OpenCodeService {
   private activeSessions: Map<string, AgentSession> = new Map();
   private isShuttingDown: boolean = false;
-  private nextPort: number = 4096;
+  // Ports of servers that are running or still being torn down
+  private usedPorts: Set<number> = new Set();
+  private nextPort: number = BASE_AGENT_PORT;
   // Mutex to serialize process.chdir() operations (SDK doesn't support cwd option yet)
   private chdirMutex: Promise<void> = Promise.resolve();
 
   async startSession(
     agentId: string,
     worktreePath: string,
-    issueTitle: string,
-    issueBody: string,
+    options: SessionOptions,
     onEvent: AgentEventCallback
   ): Promise<void> {
     if (this.isShuttingDown) {
@@ -89,75 +153,102 @@ export class OpenCodeService {
       healthCheckId: null,
       startedAt: new Date(),
       detailedState: createInitialDetailedState(),
+      onEvent,
+      model: options.model,
+      limits: {
+        timeoutMinutes: options.limits?.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES,
+        stallMinutes: options.limits?.stallMinutes ?? DEFAULT_STALL_MINUTES,
+        maxRepeatedToolErrors:
+          options.limits?.maxRepeatedToolErrors ?? DEFAULT_MAX_REPEATED_TOOL_ERRORS,
+      },
+      lastEventAt: Date.now(),
+      lastStepAt: Date.now(),
+      toolErrorStreak: null,
+      userMessageIds: new Set(),
     };
 
     this.activeSessions.set(agentId, agentSession);
 
     // Set up timeout
+    const { timeoutMinutes } = agentSession.limits;
     agentSession.timeoutId = setTimeout(() => {
-      this.handleTimeout(agentId, onEvent);
-    }, AGENT_TIMEOUT_MS);
+      this.handleStuck(agentId, 'timeout', `Session timed out after ${timeoutMinutes} minutes`);
+    }, timeoutMinutes * 60 * 1000);
 
     // Run the session asynchronously
-    this.runSession(agentSession, issueTitle, issueBody, onEvent).catch((error) => {
+    this.runSession(agentSession, options, onEvent).catch((error) => {
       logger.error(`Session ${agentId} failed with error:`, error);
     });
   }
 
-  private async handleTimeout(agentId: string, onEvent: AgentEventCallback): Promise<void> {
+  /**
+   * Kill a session that timed out, stalled or is looping, then report it.
+   * The session is gone before the event fires, so the agent can be
+   * respawned under the same ID right away.
+   */
+  private async handleStuck(agentId: string, kind: IncidentKind, message: string): Promise<void> {
     const session = this.activeSessions.get(agentId);
     if (!session || session.status !== 'working') {
       return;
     }
 
-    logger.warn(`[${agentId}] Session timed out after ${AGENT_TIMEOUT_MS / 1000 / 60} minutes`);
+    logger.warn(`[${agentId}] ${message}`);
     session.status = 'failed';
-    onEvent(agentId, 'failed', { error: 'Session timed out' });
+    session.abortController?.abort();
 
     await this.forceKillSession(session);
     this.activeSessions.delete(agentId);
+
+    session.onEvent(agentId, 'stuck', { kind, message });
+  }
+
+  /**
+   * Stall detection: no events, or events but no completed steps, for too
+   * long. An agent waiting on a permission answer is not stalled.
+   */
+  private checkStalled(session: AgentSession): void {
+    const now = Date.now();
+    if (session.detailedState.pendingPermission) {
+      // Waiting time doesn't count towards a stall
+      session.lastEventAt = now;
+      session.lastStepAt = now;
+      return;
+    }
+
+    const stallMs = session.limits.stallMinutes * 60 * 1000;
+    if (now - session.lastEventAt > stallMs) {
+      this.handleStuck(
+        session.agentId,
+        'stall',
+        `No events for ${session.limits.stallMinutes} minutes`
+      );
+    } else if (now - session.lastStepAt > stallMs) {
+      this.handleStuck(
+        session.agentId,
+        'stall',
+        `No completed steps for ${session.limits.stallMinutes} minutes`
+      );
+    }
   }
 
   private async runSession(
     agentSession: AgentSession,
-    issueTitle: string,
-    issueBody: string,
+    options: SessionOptions,
     onEvent: AgentEventCallback
   ): Promise<void> {
     const { agentId, worktreePath, abortController } = agentSession;
+    const { issueTitle, issueBody, unitType, model } = options;
     const startTime = Date.now();
 
     try {
       logger.info(`[${agentId}] Creating OpenCode server and client...`);
 
       // Assign a unique port for this agent
-      const port = this.nextPort++;
+      const port = this.allocatePort();
       agentSession.serverPort = port;
 
       // Create OpenCode server and client using SDK
-      // We need to change to the worktree directory before creating the server
-      // Use mutex to prevent race condition - multiple concurrent chdir() calls corrupt global state
-      let opencode: OpencodeInstance;
-      const createServer = async (): Promise<OpencodeInstance> => {
-        const originalCwd = process.cwd();
-        process.chdir(worktreePath);
-        try {
-          return await createOpencode({
-            port,
-            timeout: 15000, // 15 seconds to start server
-          });
-        } finally {
-          process.chdir(originalCwd);
-        }
-      };
-
-      // Chain onto the mutex to serialize chdir operations
-      opencode = await new Promise<OpencodeInstance>((resolve, reject) => {
-        this.chdirMutex = this.chdirMutex
-          .then(() => createServer())
-          .then(resolve)
-          .catch(reject);
-      });
+      const opencode = await this.createServer(worktreePath, port);
 
       agentSession.client = opencode.client;
       agentSession.server = opencode.server;
@@ -196,16 +287,23 @@ export class OpenCodeService {
       }
 
       // Build the prompt message
+      const personality = unitType ? UNIT_PERSONALITIES[unitType] : null;
+      const approach = personality
+        ? `\n\nApproach (${personality.approach}): ${personality.instructions}`
+        : '';
       const message = `Fix this GitHub issue:
 
 Title: ${issueTitle}
 
 Description:
-${issueBody}
+${issueBody}${approach}
 
 Please analyze the codebase, implement a fix, and make the necessary changes. When you're done, make sure all changes are saved.`;
 
-      logger.info(`[${agentId}] Sending prompt to agent...`);
+      logger.info(
+        `[${agentId}] Sending prompt to agent` +
+          (model ? ` (${model.providerID}/${model.modelID})...` : '...')
+      );
 
       // Update state to show we're starting
       agentSession.detailedState.activity = 'responding';
@@ -231,9 +329,14 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
         path: { id: sessionId },
         body: {
           parts: [{ type: 'text', text: message }],
+          ...(model && { model }),
         },
       });
 
+      // prompt() can return normally for an aborted session, which must not
+      // count as a finished run
+      const cancelled = abortController?.signal.aborted;
+
       // Signal event subscription to stop (prompt finished)
       abortController?.abort();
 
@@ -247,7 +350,7 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
       onEvent(agentId, 'progress', { detailedState: agentSession.detailedState });
 
       // Check if cancelled during execution
-      if (agentSession.status !== 'working') {
+      if (cancelled || agentSession.status !== 'working') {
         logger.info(`[${agentId}] Session was cancelled during execution`);
         return;
       }
@@ -282,7 +385,152 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
       logger.error(`[${agentId}] ❌ FAILED with error (${duration}s): ${errorMessage}`);
     } finally {
       await this.cleanupSession(agentSession);
-      this.activeSessions.delete(agentId);
+      if (agentSession.serverPort) {
+        this.usedPorts.delete(agentSession.serverPort);
+      }
+      // The agent may have been respawned under the same ID by now
+      if (this.activeSessions.get(agentId) === agentSession) {
+        this.activeSessions.delete(agentId);
+      }
+    }
+  }
+
+  /**
+   * Hand out the next free port, going round the range so a freed port
+   * isn't reused while its old server may still be shutting down
+   */
+  private allocatePort(): number {
+    const lastPort = BASE_AGENT_PORT + AGENT_PORT_SCAN_RANGE;
+    for (let i = 0; i <= AGENT_PORT_SCAN_RANGE; i++) {
+      const port = this.nextPort;
+      this.nextPort = port >= lastPort ? BASE_AGENT_PORT : port + 1;
+      if (!this.usedPorts.has(port)) {
+        this.usedPorts.add(port);
+        return port;
+      }
+    }
+    throw new Error(`No free port between ${BASE_AGENT_PORT} and ${lastPort}`);
+  }
+
+  /**
+   * Create an OpenCode server and client rooted at the given directory.
+   * We need to change to that directory before creating the server; the
+   * mutex prevents a race condition - multiple concurrent chdir() calls
+   * corrupt global state.
+   */
+  private async createServer(
+    directory: string,
+    port: number,
+    config?: Config
+  ): Promise<OpencodeInstance> {
+    const createInDirectory = async (): Promise<OpencodeInstance> => {
+      const originalCwd = process.cwd();
+      process.chdir(directory);
+      try {
+        return await createOpencode({
+          port,
+          timeout: 15000, // 15 seconds to start server
+          config,
+        });
+      } finally {
+        process.chdir(originalCwd);
+      }
+    };
+
+    // Chain onto the mutex to serialize chdir operations
+    return new Promise<OpencodeInstance>((resolve, reject) => {
+      this.chdirMutex = this.chdirMutex
+        .then(() => createInDirectory())
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Ask a one-off reviewer session to rate a candidate diff from 0 to 10.
+   * The reviewer runs read-only in an empty directory, never in the
+   * candidate's worktree. Returns null if it couldn't produce a score in time.
+   */
+  async reviewDiff(issueTitle: string, issueBody: string, diff: string): Promise<number | null> {
+    let port: number | null = null;
+    let opencode: OpencodeInstance | null = null;
+    let reviewDir: string | null = null;
+    let timeoutId: NodeJS.Timeout | null = null;
+
+    try {
+      reviewDir = await mkdtemp(path.join(os.tmpdir(), 'swarm-review-'));
+      port = this.allocatePort();
+      opencode = await this.createServer(reviewDir, port, REVIEWER_CONFIG);
+
+      const session = await opencode.client.session.create({
+        body: { title: `Review fix for ${issueTitle}` },
+      });
+      if (!session.data) {
+        throw new Error('Failed to create review session - no data returned');
+      }
+
+      const message = `You are reviewing a candidate fix for this GitHub issue. Do not modify any files.
+
+Title: ${issueTitle}
+
+Description:
+${issueBody}
+
+Candidate diff:
+\`\`\`diff
+${diff.slice(0, MAX_REVIEW_DIFF_CHARS)}
+\`\`\`
+
+Rate how well the diff fixes the issue (correctness, completeness, code quality) on a scale from 0 to 10. Reply with only the number.`;
+
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new Error(`Reviewer timed out after ${REVIEW_TIMEOUT_MS / 1000}s`)),
+          REVIEW_TIMEOUT_MS
+        );
+      });
+      const result = await Promise.race([
+        opencode.client.session.prompt({
+          path: { id: session.data.id },
+          body: {
+            parts: [{ type: 'text', text: message }],
+            tools: REVIEWER_TOOLS,
+          },
+        }),
+        timeout,
+      ]);
+
+      const text = (result.data?.parts ?? [])
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join(' ');
+      const match = text.match(/\d+(?:\.\d+)?/);
+      if (!match) {
+        logger.warn(`[reviewDiff] No score in reviewer response: ${text.slice(0, 200)}`);
+        return null;
+      }
+
+      return Math.min(10, Math.max(0, parseFloat(match[0])));
+    } catch (error) {
+      logger.warn(`[reviewDiff] Review failed: ${error}`);
+      return null;
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+      if (opencode) {
+        try {
+          opencode.server.close();
+        } catch {
+          // Ignore close errors
+        }
+      }
+      if (port !== null) {
+        await this.killServerOnPort(port).catch(() => { });
+        this.usedPorts.delete(port);
+      }
+      if (reviewDir) {
+        await rm(reviewDir, { recursive: true, force: true }).catch(() => { });
+      }
     }
   }
 
@@ -366,6 +614,8 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
       return false;
     }
 
+    agentSession.lastEventAt = Date.now();
+
     // Helper to update activity only if not finished
     const setActivity = (activity: AgentActivity) => {
       if (!detailedState.isFinished) {
@@ -378,6 +628,11 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
         const part = evt.properties.part as Record<string, unknown>;
         const partType = part.type as string;
 
+        const entry = this.toTranscriptEntry(agentSession, part);
+        if (entry) {
+          agentSession.onEvent(agentId, 'transcript', entry);
+        }
+
         if (partType === 'tool') {
           const state = part.state as Record<string, unknown>;
           const status = state.status as string;
@@ -392,10 +647,12 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
             setActivity('responding');
             detailedState.currentTool = undefined;
             detailedState.currentToolTitle = undefined;
+            agentSession.toolErrorStreak = null;
           } else if (status === 'error') {
             detailedState.errorCount++;
             detailedState.lastError = state.error as string;
             logger.debug(`[${agentId}] Tool error: ${state.error}`);
+            this.trackToolError(agentSession, toolName, state.error as string);
           }
         } else if (partType === 'reasoning') {
           setActivity('thinking');
@@ -403,6 +660,7 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
           setActivity('responding');
         } else if (partType === 'step-finish') {
           detailedState.stepsCompleted++;
+          agentSession.lastStepAt = Date.now();
           const tokens = part.tokens as { input: number; output: number; reasoning: number };
           if (tokens) {
             detailedState.tokens.input += tokens.input || 0;
@@ -422,7 +680,9 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
 
       case 'message.updated': {
         const info = evt.properties.info as Record<string, unknown>;
-        if (info.role === 'assistant') {
+        if (info.role === 'user') {
+          agentSession.userMessageIds.add(info.id as string);
+        } else if (info.role === 'assistant') {
           const tokens = info.tokens as { input: number; output: number; reasoning: number };
           const finish = info.finish as string | undefined;
 
@@ -448,8 +708,7 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
           metadata: Record<string, unknown>;
           time: { created: number };
         };
-        setActivity('waiting_permission');
-        detailedState.pendingPermission = {
+        const permission: PendingPermission = {
           id: props.id,
           type: props.type,
           title: props.title,
@@ -457,6 +716,17 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
           metadata: props.metadata,
           createdAt: props.time.created,
         };
+
+        const match = permissionPolicyService.evaluate(permission);
+        if (match) {
+          this.applyPermissionPolicy(agentSession, permission, match).catch((error) => {
+            logger.error(`[${agentId}] Failed to apply permission policy:`, error);
+          });
+          return false;
+        }
+
+        setActivity('waiting_permission');
+        detailedState.pendingPermission = permission;
         logger.info(`[${agentId}] Permission required: ${props.title}`);
         return true;
       }
@@ -545,12 +815,36 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
     }
   }
 
+  /**
+   * Loop detection: the same tool failing with the same error over and over
+   */
+  private trackToolError(agentSession: AgentSession, toolName: string, error: string): void {
+    const key = `${toolName}: ${error}`;
+    const streak =
+      agentSession.toolErrorStreak?.key === key
+        ? agentSession.toolErrorStreak
+        : { key, count: 0 };
+    streak.count++;
+    agentSession.toolErrorStreak = streak;
+
+    const { count } = streak;
+    if (count >= agentSession.limits.maxRepeatedToolErrors) {
+      this.handleStuck(
+        agentSession.agentId,
+        'loop',
+        `Same tool error ${count} times in a row (${key.slice(0, 200)})`
+      );
+    }
+  }
+
   private async performHealthCheck(agentId: string): Promise<void> {
     const session = this.activeSessions.get(agentId);
     if (!session || !session.server) {
       return;
     }
 
+    this.checkStalled(session);
+
     try {
       const response = await fetch(`${session.server.url}/health`, {
         method: 'GET',
@@ -613,7 +907,7 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
     if (serverPort) {
       try {
         logger.info(`[${agentId}] Force-killing processes on port ${serverPort}...`);
-        await execAsync(`lsof -ti:${serverPort} | xargs kill -9 2>/dev/null || true`);
+        await this.killServerOnPort(serverPort);
         logger.info(`[${agentId}] Force-killed processes on port ${serverPort}`);
       } catch (error) {
         logger.warn(`[${agentId}] Failed to force-kill by port: ${error}`);
@@ -621,6 +915,71 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
     }
   }
 
+  async killServerOnPort(port: number): Promise<void> {
+    await execAsync(`lsof -ti:${port} | xargs kill -9 2>/dev/null || true`);
+  }
+
+  /**
+   * Find listening ports in the agent port range that don't belong to a
+   * server this process started. Each one says whether its process is an OpenCode server started
+   * the way this app starts them; anything else there isn't ours to kill.
+   */
+  async findOrphanedServers(): Promise<OrphanedServer[]> {
+    const lastPort = BASE_AGENT_PORT + AGENT_PORT_SCAN_RANGE;
+    let stdout: string;
+    try {
+      ({ stdout } = await execAsync(
+        `lsof -nP -iTCP:${BASE_AGENT_PORT}-${lastPort} -sTCP:LISTEN -Fpn 2>/dev/null || true`
+      ));
+    } catch (error) {
+      logger.warn(`Failed to scan agent ports: ${error}`);
+      return [];
+    }
+
+
+    // -Fpn prints a "p<pid>" line per process, then one "n<address>:<port>"
+    // line per listening socket it owns
+    const pidsByPort = new Map<number, number>();
+    let pid: number | null = null;
+    for (const line of stdout.split('\n')) {
+      if (line.startsWith('p')) {
+        pid = parseInt(line.slice(1), 10);
+        continue;
+      }
+      const match = line.match(/^n.*:(\d+)$/);
+      if (!match || pid === null || pid === process.pid) continue;
+      const port = parseInt(match[1], 10);
+      if (port >= BASE_AGENT_PORT && port <= lastPort && !this.usedPorts.has(port)) {
+        pidsByPort.set(port, pid);
+      }
+    }
+
+    const servers: OrphanedServer[] = [];
+    for (const [port, serverPid] of pidsByPort) {
+      servers.push({
+        port,
+        pid: serverPid,
+        isAgentServer: await this.isAgentServerProcess(serverPid, port),
+      });
+    }
+    return servers.sort((a, b) => a.port - b.port);
+  }
+
+  // The SDK starts servers as `opencode serve --hostname=... --port=<port>`
+  private async isAgentServerProcess(pid: number, port: number): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync(`ps -o args= -p ${pid}`);
+      return /\bopencode\b.*\bserve\b/.test(stdout) && new RegExp(`--port=${port}\\b`).test(stdout);
+    } catch {
+      // Gone already, or ps failed - either way not something to kill
+      return false;
+    }
+  }
+
+  async killProcess(pid: number): Promise<void> {
+    await execAsync(`kill -9 ${pid}`);
+  }
+
   async cancelSession(agentId: string): Promise<void> {
     const session = this.activeSessions.get(agentId);
     if (!session) {
@@ -630,6 +989,9 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
     try {
       logger.info(`[${agentId}] Cancelling session...`);
 
+      // A run that is still finishing up must not report success afterwards
+      session.status = 'failed';
+
       // Signal cancellation via abort controller
       session.abortController?.abort();
 
@@ -683,13 +1045,85 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
     return session?.detailedState ?? null;
   }
 
+  /**
+   * Turn a message part into a transcript entry. Returns null for parts that
+   * only carry bookkeeping (step boundaries, snapshots, patches).
+   */
+  private toTranscriptEntry(
+    agentSession: AgentSession,
+    part: Record<string, unknown>
+  ): TranscriptEntry | null {
+    const base = { id: part.id as string, at: new Date() };
+
+    switch (part.type) {
+      case 'text': {
+        const kind = agentSession.userMessageIds.has(part.messageID as string) ? 'prompt' : 'text';
+        return { ...base, kind, text: part.text as string };
+      }
+      case 'reasoning':
+        return { ...base, kind: 'reasoning', text: part.text as string };
+      case 'tool': {
+        const state = part.state as Record<string, unknown>;
+        const output = state.output as string | undefined;
+        return {
+          ...base,
+          kind: 'tool',
+          tool: part.tool as string,
+          status: state.status as string,
+          title: (state.title as string) || undefined,
+          input: state.input as Record<string, unknown> | undefined,
+          output:
+            output && output.length > MAX_TRANSCRIPT_OUTPUT_CHARS
+              ? `${output.slice(0, MAX_TRANSCRIPT_OUTPUT_CHARS)}\n... (truncated)`
+              : output,
+          error: state.error as string | undefined,
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Answer a permission request with a matching rule's response. If the
+   * reply fails the request is left to a human instead.
+   */
+  private async applyPermissionPolicy(
+    agentSession: AgentSession,
+    permission: PendingPermission,
+    match: PermissionPolicyMatch
+  ): Promise<void> {
+    const { agentId, detailedState } = agentSession;
+    logger.info(
+      `[${agentId}] Permission "${permission.title}" matches rule ${match.ruleIndex}: ${match.response}`
+    );
+
+    if (await this.respondToPermission(agentId, permission.id, match.response)) {
+      agentSession.onEvent(agentId, 'permission', {
+        permissionId: permission.id,
+        type: permission.type,
+        title: permission.title,
+        response: match.response,
+        ruleIndex: match.ruleIndex,
+        decidedAt: new Date(),
+      });
+      return;
+    }
+
+    if (!detailedState.isFinished) {
+      detailedState.activity = 'waiting_permission';
+    }
+    detailedState.pendingPermission = permission;
+    agentSession.onEvent(agentId, 'progress', { detailedState });
+  }
+
   /**
    * Respond to a permission request for an agent
    */
   async respondToPermission(
     agentId: string,
     permissionId: string,
-    response: 'once' | 'always' | 'reject'
+    response: PermissionResponse
   ): Promise<boolean> {
     const session = this.activeSessions.get(agentId);
     if (!session || !session.client || !session.sessionId) {
@@ -715,6 +1149,34 @@ Please analyze the codebase, implement a fix, and make the necessary changes. Wh
     }
   }
 
+  /**
+   * Send a follow-up message into an agent's running session. OpenCode
+   * queues it behind the current step, and the prompt runSession is waiting
+   * on only returns once the queued message has been handled too.
+   */
+  async sendMessage(agentId: string, text: string): Promise<boolean> {
+    const session = this.activeSessions.get(agentId);
+    if (!session || !session.client || !session.sessionId || session.status !== 'working') {
+      logger.warn(`[${agentId}] Cannot send message - no running session`);
+      return false;
+    }
+
+    try {
+      await session.client.session.promptAsync({
+        path: { id: session.sessionId },
+        body: {
+          parts: [{ type: 'text', text }],
+          ...(session.model && { model: session.model }),
+        },
+      });
+      logger.info(`[${agentId}] Sent follow-up message`);
+      return true;
+    } catch (error) {
+      logger.error(`[${agentId}] Failed to send message:`, error);
+      return false;
+    }
+  }
+
   /**
    * Graceful shutdown - cancel all sessions and clean up resources
    */
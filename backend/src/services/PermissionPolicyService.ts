@@ -0,0 +1,68 @@
+import type { PendingPermission, PermissionResponse, PermissionRule } from '../types/index.js';
+import { githubService } from './GitHubService.js';
+import { matchesGlob } from '../utils/glob.js';
+
+export interface PermissionPolicyMatch {
+  response: PermissionResponse;
+  ruleIndex: number;
+}
+
+export class PermissionPolicyService {
+  /**
+   * Find the first configured rule matching a permission request. Returns
+   * null if none does, leaving the request to a human.
+   */
+  evaluate(permission: PendingPermission): PermissionPolicyMatch | null {
+    const rules = githubService.getConfig()?.permissionRules ?? [];
+    const ruleIndex = rules.findIndex((rule) => this.matches(rule, permission));
+    if (ruleIndex === -1) return null;
+
+    return { response: rules[ruleIndex].response, ruleIndex };
+  }
+
+  private matches(rule: PermissionRule, permission: PendingPermission): boolean {
+    if (rule.type && !matchesGlob(permission.type, rule.type)) {
+      return false;
+    }
+
+    // Rules that grant access must not stretch to commands chained onto the
+    // one they were written for
+    const options = { shellSafe: rule.response !== 'reject' };
+
+    if (rule.pattern) {
+      const glob = rule.pattern;
+      let patterns: string[] = [];
+      if (Array.isArray(permission.pattern)) {
+        patterns = permission.pattern;
+      } else if (permission.pattern !== undefined) {
+        patterns = [permission.pattern];
+      }
+
+      // Compound commands carry one pattern each: a rule granting access must
+      // cover all of them, a rejecting rule any one of them
+      let matched: boolean;
+      if (rule.response === 'reject') {
+        matched = patterns.some((pattern) => matchesGlob(pattern, glob));
+      } else {
+        matched =
+          patterns.length > 0 && patterns.every((pattern) => matchesGlob(pattern, glob, options));
+      }
+      if (!matched) {
+        return false;
+      }
+    }
+
+    for (const [key, glob] of Object.entries(rule.metadata ?? {})) {
+      const value = permission.metadata?.[key];
+      if (value === undefined) return false;
+
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      if (!matchesGlob(text, glob, options)) return false;
+    }
+
+    return true;
+  }
+}
+
+// Singleton instance
+export const permissionPolicyService = new PermissionPolicyService();
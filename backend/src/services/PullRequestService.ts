@@ -0,0 +1,178 @@
+import type { AgentInstance, Battle } from '../types/index.js';
+import { UNIT_PERSONALITIES } from '../types/index.js';
+import { githubService } from './GitHubService.js';
+import { transcriptStore } from './TranscriptStore.js';
+import { renderTemplate } from '../utils/template.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_TITLE_TEMPLATE = 'Fix: {{issueTitle}}';
+
+// Section placeholders render with their own heading, or as nothing if
+// there's no data for them
+const DEFAULT_BODY_TEMPLATE = `This PR was automatically generated by the RTS Issue Battle game to fix issue #{{issueNumber}}.
+
+{{summary}}
+
+{{todos}}
+
+{{files}}
+
+{{verification}}
+
+{{battle}}
+
+{{guidance}}
+
+Closes #{{issueNumber}}`;
+
+// Keeps the body well below GitHub's limit however chatty the agent was
+const MAX_SUMMARY_CHARS = 4000;
+
+export interface PullRequestContent {
+  title: string;
+  body: string;
+}
+
+export class PullRequestService {
+  /**
+   * Render the title and body for a winning agent's PR from the configured
+   * templates. Placeholders:
+   * - issueNumber, issueTitle, unit, model, tokens, duration, cost, competitors
+   * - summary, todos, files, verification, battle, guidance (whole sections)
+   */
+  async buildContent(battle: Battle, agent: AgentInstance): Promise<PullRequestContent> {
+    const options = githubService.getConfig()?.pullRequest;
+    const values = await this.getValues(battle, agent);
+
+    const title = renderTemplate(options?.titleTemplate ?? DEFAULT_TITLE_TEMPLATE, values);
+    const body = renderTemplate(options?.bodyTemplate ?? DEFAULT_BODY_TEMPLATE, values)
+      // Empty sections leave runs of blank lines behind
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return { title, body };
+  }
+
+  private async getValues(battle: Battle, agent: AgentInstance): Promise<Record<string, string>> {
+    const state = agent.detailedState;
+    const personality = UNIT_PERSONALITIES[agent.unitType];
+    const tokens = state ? state.tokens.input + state.tokens.output + state.tokens.reasoning : 0;
+    const endedAt = state?.completedAt ?? Date.now();
+    const durationMs = agent.startedAt ? endedAt - agent.startedAt.getTime() : 0;
+    const competitors = battle.agents.length - 1;
+
+    const values: Record<string, string> = {
+      issueNumber: String(battle.issueNumber),
+      issueTitle: battle.issueTitle,
+      unit: `${personality.name} (${personality.approach})`,
+      model: agent.model ? `${agent.model.providerID}/${agent.model.modelID}` : 'default',
+      tokens: tokens.toLocaleString('en-US'),
+      duration: this.formatDuration(durationMs),
+      cost: agent.costUsd !== undefined ? `$${agent.costUsd.toFixed(2)}` : 'unknown',
+      competitors: String(competitors),
+    };
+
+    values.summary = await this.getSummarySection(battle, agent);
+    values.todos = this.getTodosSection(agent);
+    values.files = this.getFilesSection(agent);
+    values.verification = this.getVerificationSection(agent);
+    values.battle = [
+      '### Battle',
+      '',
+      `- Winner: Unit ${agent.unitIndex + 1}, ${values.unit} on ${values.model} model`,
+      `- Beat ${competitors} competitor${competitors === 1 ? '' : 's'} (${battle.mode} mode)`,
+      `- Tokens: ${values.tokens}`,
+      `- Duration: ${values.duration}`,
+      ...(agent.costUsd !== undefined ? [`- Estimated cost: ${values.cost}`] : []),
+    ].join('\n');
+    values.guidance = this.getGuidanceSection(agent);
+
+    return values;
+  }
+
+  // The agent's last message, which is usually its own account of the fix
+  private async getSummarySection(battle: Battle, agent: AgentInstance): Promise<string> {
+    let entries;
+    try {
+      entries = await transcriptStore.getEntries(battle.id, agent.id);
+    } catch (error) {
+      logger.warn(`[${agent.id}] Failed to read transcript for PR summary: ${error}`);
+      return '';
+    }
+
+    const summary = entries
+      .filter((entry) => entry.kind === 'text' && entry.text?.trim())
+      .pop()?.text?.trim();
+    if (!summary) return '';
+
+    const text =
+      summary.length > MAX_SUMMARY_CHARS
+        ? `${summary.slice(0, MAX_SUMMARY_CHARS)}\n\n_(truncated)_`
+        : summary;
+    return `### Summary\n\n${text}`;
+  }
+
+  private getTodosSection(agent: AgentInstance): string {
+    const todos = agent.detailedState?.todos ?? [];
+    if (todos.length === 0) return '';
+
+    const lines = todos.map(
+      (todo) => `- [${todo.status === 'completed' ? 'x' : ' '}] ${todo.content}`
+    );
+    return `### Plan\n\n${lines.join('\n')}`;
+  }
+
+  private getFilesSection(agent: AgentInstance): string {
+    const state = agent.detailedState;
+    if (!state || state.filesModified.length === 0) return '';
+
+    const lines = state.filesModified.map((file) => `- \`${file}\``);
+    return (
+      `### Files changed\n\n${lines.join('\n')}\n\n` +
+      `+${state.linesAdded} / -${state.linesDeleted} lines`
+    );
+  }
+
+  private getVerificationSection(agent: AgentInstance): string {
+    const steps = agent.verification?.steps ?? [];
+    if (steps.length === 0) return '';
+
+    const rows = steps.map(
+      (step) =>
+        `| ${step.name} | \`${step.command}\` | ${step.passed ? '✅ passed' : '❌ failed'} | ` +
+        `${(step.durationMs / 1000).toFixed(1)}s |`
+    );
+    return [
+      '### Verification',
+      '',
+      '| Step | Command | Result | Time |',
+      '| --- | --- | --- | --- |',
+      ...rows,
+    ].join('\n');
+  }
+
+  private getGuidanceSection(agent: AgentInstance): string {
+    const messages = agent.messages ?? [];
+    if (messages.length === 0) return '';
+
+    const quoted = messages.map((message) => {
+      const text = message.text.split('\n').join('\n> ');
+      return `${message.broadcast ? 'To all agents' : 'To this agent'}:\n> ${text}`;
+    });
+    return `### Guidance given during the battle\n\n${quoted.join('\n\n')}`;
+  }
+
+  private formatDuration(ms: number): string {
+    const totalSeconds = Math.round(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+  }
+}
+
+// Singleton instance
+export const pullRequestService = new PullRequestService();
@@ -0,0 +1,173 @@
+import type { OrphanPolicy, ReconciliationReport } from '../types/index.js';
+import { battleService } from './BattleService.js';
+import { worktreeService } from './WorktreeService.js';
+import { openCodeService } from './OpenCodeService.js';
+import { logger } from '../utils/logger.js';
+
+const ORPHAN_POLICIES: OrphanPolicy[] = ['cleanup', 'reattach', 'report'];
+
+function getOrphanPolicy(): OrphanPolicy {
+  const policy = process.env.ORPHAN_POLICY as OrphanPolicy | undefined;
+  if (policy && ORPHAN_POLICIES.includes(policy)) {
+    return policy;
+  }
+  if (policy) {
+    logger.warn(`Unknown ORPHAN_POLICY "${policy}", falling back to "cleanup"`);
+  }
+  return 'cleanup';
+}
+
+export class ReconciliationService {
+  private lastReport: ReconciliationReport | null = null;
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Find worktrees, branches and agent server ports left behind by a previous
+   * run that have no matching live battle, and handle them according to the
+   * configured ORPHAN_POLICY:
+   * - cleanup:  remove everything
+   * - reattach: keep worktrees of interrupted battles so they can be resumed,
+   *             remove the rest
+   * - report:   only record what was found
+   *
+   * OpenCode servers can never be reattached (their sessions belonged to the
+   * old process), so orphaned ports are killed under every policy but "report".
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const policy = getOrphanPolicy();
+    const report: ReconciliationReport = {
+      policy,
+      ranAt: new Date(),
+      worktrees: { found: [], removed: [], reattached: [] },
+      branches: { found: [], deleted: [] },
+      ports: { found: [], killed: [] },
+      errors: [],
+    };
+
+    logger.info(`Reconciling orphaned resources (policy: ${policy})`);
+
+    const isLive = (battleId: string): boolean => {
+      const battle = battleService.getBattle(battleId);
+      // Candidates awaiting review still need their worktrees
+      return (
+        battle?.status === 'pending' ||
+        battle?.status === 'fighting' ||
+        battle?.status === 'judging' ||
+        battle?.status === 'awaiting_review'
+      );
+    };
+
+    // Finished battles within their retention period keep worktrees and branches
+    const isRetained = (battleId: string): boolean => {
+      const expireAt = battleService.getBattle(battleId)?.worktreesExpireAt;
+      return expireAt !== undefined && expireAt.getTime() > Date.now();
+    };
+
+    // Worktrees
+    const keptBattleIds = new Set<string>();
+    for (const battleId of await worktreeService.listBattleDirectories()) {
+      if (isLive(battleId) || isRetained(battleId)) continue;
+      report.worktrees.found.push(battleId);
+
+      if (policy === 'report') continue;
+
+      if (policy === 'reattach' && (await this.reattach(battleId))) {
+        keptBattleIds.add(battleId);
+        report.worktrees.reattached.push(battleId);
+        continue;
+      }
+
+      try {
+        await battleService.snapshotDiffs(battleId);
+        await worktreeService.cleanupBattle(battleId);
+        report.worktrees.removed.push(battleId);
+      } catch (error) {
+        report.errors.push(`Failed to remove worktrees for battle ${battleId}: ${error}`);
+      }
+    }
+
+    // Branches
+    try {
+      for (const branch of await worktreeService.listAttemptBranches()) {
+        if (
+          isLive(branch.battleId) ||
+          isRetained(branch.battleId) ||
+          keptBattleIds.has(branch.battleId)
+        ) {
+          continue;
+        }
+        report.branches.found.push(branch.name);
+
+        if (policy === 'report') continue;
+
+        try {
+          await worktreeService.deleteBranch(branch.name);
+          report.branches.deleted.push(branch.name);
+        } catch (error) {
+          report.errors.push(`Failed to delete branch ${branch.name}: ${error}`);
+        }
+      }
+    } catch (error) {
+      report.errors.push(`Failed to list attempt branches: ${error}`);
+    }
+
+    // Agent server ports
+    for (const { port, pid, isAgentServer } of await openCodeService.findOrphanedServers()) {
+      report.ports.found.push(port);
+
+      if (policy === 'report') continue;
+      if (!isAgentServer) {
+        // Some other local service happens to use a port in our range
+        logger.info(`Leaving port ${port} alone, process ${pid} is not an OpenCode server`);
+        continue;
+      }
+
+      try {
+        await openCodeService.killProcess(pid);
+        report.ports.killed.push(port);
+      } catch (error) {
+        report.errors.push(`Failed to kill server on port ${port}: ${error}`);
+      }
+    }
+
+    this.lastReport = report;
+    logger.info(
+      `Reconciliation done: ${report.worktrees.found.length} worktree dir(s), ` +
+        `${report.branches.found.length} branch(es), ${report.ports.found.length} port(s) orphaned`
+    );
+    if (report.errors.length > 0) {
+      logger.warn('Reconciliation errors', report.errors);
+    }
+
+    return report;
+  }
+
+  /**
+   * Mark an interrupted battle as resumable if the worktree of an agent the
+   * restart cut off still exists.
+   * Returns false if there is nothing to reattach to.
+   */
+  private async reattach(battleId: string): Promise<boolean> {
+    const battle = battleService.getBattle(battleId);
+    if (!battle || battle.status !== 'interrupted') {
+      return false;
+    }
+
+    const worktrees = await worktreeService.listAgentWorktrees(battleId);
+    const hasWorktrees = battle.agents.some(
+      (agent) => agent.interruptedByRestart && worktrees.includes(agent.worktreePath)
+    );
+    if (!hasWorktrees) {
+      return false;
+    }
+
+    battleService.markResumable(battleId);
+    return true;
+  }
+}
+
+// Singleton instance
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TranscriptEntry } from '../types/index.js';
+import { WORKTREES_DIR } from './WorktreeService.js';
+import { logger } from '../utils/logger.js';
+
+// Kept apart from battles.json, and outside the battle dirs so transcripts survive cleanup
+const TRANSCRIPTS_DIR = path.join(WORKTREES_DIR, 'transcripts');
+
+// Streaming parts are updated many times per second, so coalesce writes
+const SAVE_DEBOUNCE_MS = 1000;
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  total: number;
+}
+
+export class TranscriptStore {
+  // Loaded transcripts keyed by "battleId/agentId"
+  private transcripts: Map<string, Promise<TranscriptEntry[]>> = new Map();
+  private dirty: Set<string> = new Set();
+  private saveTimer: NodeJS.Timeout | null = null;
+  // Serializes writes so an older snapshot never lands after a newer one
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Add an entry to an agent's transcript, or replace the entry with the same id
+   */
+  async record(battleId: string, agentId: string, entry: TranscriptEntry): Promise<void> {
+    const key = this.getKey(battleId, agentId);
+    const transcript = await this.load(key);
+
+    // Updates almost always hit one of the latest parts, so search from the end
+    let index = transcript.length - 1;
+    while (index >= 0 && transcript[index].id !== entry.id) {
+      index--;
+    }
+
+    if (index === -1) {
+      transcript.push(entry);
+    } else {
+      transcript[index] = { ...entry, at: transcript[index].at };
+    }
+
+    this.dirty.add(key);
+    this.scheduleSave();
+  }
+
+  async getEntries(battleId: string, agentId: string): Promise<TranscriptEntry[]> {
+    return [...(await this.load(this.getKey(battleId, agentId)))];
+  }
+
+  async getPage(
+    battleId: string,
+    agentId: string,
+    offset: number,
+    limit: number
+  ): Promise<TranscriptPage> {
+    const transcript = await this.load(this.getKey(battleId, agentId));
+    return {
+      entries: transcript.slice(offset, offset + limit),
+      total: transcript.length,
+    };
+  }
+
+  /**
+   * Forget and delete every transcript of a battle
+   */
+  async removeBattle(battleId: string): Promise<void> {
+    for (const key of [...this.transcripts.keys()]) {
+      if (key.startsWith(`${battleId}/`)) {
+        this.transcripts.delete(key);
+        this.dirty.delete(key);
+      }
+    }
+
+    await this.writeChain;
+    await fs.rm(path.join(TRANSCRIPTS_DIR, battleId), { recursive: true, force: true });
+  }
+
+  /**
+   * Write any pending transcripts immediately.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.enqueueWrite();
+    }
+    await this.writeChain;
+  }
+
+  private getKey(battleId: string, agentId: string): string {
+    return `${battleId}/${agentId}`;
+  }
+
+  private getFile(key: string): string {
+    return path.join(TRANSCRIPTS_DIR, `${key}.json`);
+  }
+
+  private load(key: string): Promise<TranscriptEntry[]> {
+    let transcript = this.transcripts.get(key);
+    if (!transcript) {
+      transcript = this.read(key);
+      this.transcripts.set(key, transcript);
+    }
+    return transcript;
+  }
+
+  private async read(key: string): Promise<TranscriptEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.getFile(key), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(raw) as TranscriptEntry[];
+      // Dates are serialized as ISO strings
+      return data.map((entry) => ({ ...entry, at: new Date(entry.at) }));
+    } catch (error) {
+      logger.error(`Failed to parse transcript ${this.getFile(key)}`, error);
+      return [];
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.enqueueWrite();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private enqueueWrite(): void {
+    const keys = [...this.dirty];
+    this.dirty.clear();
+
+    for (const key of keys) {
+      const transcript = this.transcripts.get(key);
+      if (!transcript) continue;
+
+      this.writeChain = this.writeChain
+        .then(async () => this.write(key, await transcript))
+        .catch((error) => {
+          logger.error(`Failed to persist transcript ${key}`, error);
+        });
+    }
+  }
+
+  private async write(key: string, transcript: TranscriptEntry[]): Promise<void> {
+    // The battle may have been removed since the write was queued
+    if (!this.transcripts.has(key)) return;
+
+    const file = this.getFile(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // Write to a temp file and rename so a crash never leaves a truncated transcript
+    const tmpFile = `${file}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(transcript));
+    await fs.rename(tmpFile, file);
+  }
+}
+
+// Singleton instance
+export const transcriptStore = new TranscriptStore();
@@ -0,0 +1,112 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import type { VerificationResult, VerificationStep, VerificationStepName } from '../types/index.js';
+import { githubService } from './GitHubService.js';
+import { logger } from '../utils/logger.js';
+
+const execAsync = promisify(exec);
+
+// Default per-step timeout when the config doesn't set one (10 minutes)
+const DEFAULT_STEP_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Keep only the tail of each step's output - that's where failures are summarized
+const MAX_STEP_OUTPUT_CHARS = 8000;
+
+export class VerificationService {
+  /**
+   * Whether any verification command is configured for the current repo
+   */
+  isEnabled(): boolean {
+    const config = githubService.getConfig();
+    return !!(config?.buildCommand || config?.lintCommand || config?.testCommand);
+  }
+
+  /**
+   * Run the configured build, lint and test commands in a worktree, in that
+   * order, stopping at the first failure
+   */
+  async verify(agentId: string, worktreePath: string): Promise<VerificationResult> {
+    const config = githubService.getConfig();
+    const timeoutMs = config?.verifyTimeoutSeconds
+      ? config.verifyTimeoutSeconds * 1000
+      : DEFAULT_STEP_TIMEOUT_MS;
+
+    const commands: Array<[VerificationStepName, string | undefined]> = [
+      ['build', config?.buildCommand],
+      ['lint', config?.lintCommand],
+      ['test', config?.testCommand],
+    ];
+
+    const result: VerificationResult = {
+      passed: true,
+      steps: [],
+      startedAt: Date.now(),
+    };
+
+    for (const [name, command] of commands) {
+      if (!command) continue;
+
+      logger.info(`[${agentId}] Verifying (${name}): ${command}`);
+      const step = await this.runStep(name, command, worktreePath, timeoutMs);
+      result.steps.push(step);
+
+      if (!step.passed) {
+        result.passed = false;
+        logger.warn(
+          `[${agentId}] Verification ${name} failed` +
+            (step.timedOut ? ` (timed out after ${timeoutMs / 1000}s)` : ` (exit ${step.exitCode})`)
+        );
+        break;
+      }
+    }
+
+    result.completedAt = Date.now();
+    return result;
+  }
+
+  private async runStep(
+    name: VerificationStepName,
+    command: string,
+    cwd: string,
+    timeoutMs: number
+  ): Promise<VerificationStep> {
+    const startTime = Date.now();
+
+    try {
+      const { stdout, stderr } = await execAsync(command, {
+        cwd,
+        timeout: timeoutMs,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return {
+        name,
+        command,
+        passed: true,
+        exitCode: 0,
+        timedOut: false,
+        output: `${stdout}${stderr}`.slice(-MAX_STEP_OUTPUT_CHARS),
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      const { stdout = '', stderr = '', code, killed, message } = error as {
+        stdout?: string;
+        stderr?: string;
+        code?: number | string;
+        killed?: boolean;
+        message: string;
+      };
+      return {
+        name,
+        command,
+        passed: false,
+        exitCode: typeof code === 'number' ? code : null,
+        timedOut: !!killed,
+        output: `${stdout}${stderr || message}`.slice(-MAX_STEP_OUTPUT_CHARS),
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+}
+
+// Singleton instance
+export const verificationService = new VerificationService();
@@ -0,0 +1,223 @@
+import { createHmac } from 'crypto';
+import { nanoid } from 'nanoid';
+import type {
+  AgentInstance,
+  Battle,
+  PendingPermission,
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookEvent,
+} from '../types/index.js';
+import { githubService } from './GitHubService.js';
+import { eventBus } from './EventBus.js';
+import { logger } from '../utils/logger.js';
+
+// Tries per delivery, the first one included
+const MAX_ATTEMPTS = 5;
+// Doubles after every failed try: 2s, 4s, 8s, 16s
+const RETRY_BASE_DELAY_MS = 2000;
+const REQUEST_TIMEOUT_MS = 10000;
+// Deliveries kept for the log, oldest dropped first
+const MAX_LOGGED_DELIVERIES = 200;
+
+export class WebhookService {
+  // Newest last
+  private deliveries: WebhookDelivery[] = [];
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Send battle outcomes from the event bus to the configured webhooks
+   */
+  initialize(): void {
+    eventBus.on('battle.started', ({ battle }) => {
+      this.dispatch('battle.started', { battle: this.describeBattle(battle) });
+    });
+
+    eventBus.on('permission.requested', ({ battle, agent, permission }) => {
+      this.dispatch('permission.requested', {
+        battle: this.describeBattle(battle),
+        agent: this.describeAgent(agent),
+        permission: this.describePermission(permission),
+      });
+    });
+
+    eventBus.on('battle.ended', ({ battle }) => {
+      if (battle.status === 'victory') {
+        this.dispatch('battle.victory', {
+          battle: this.describeBattle(battle),
+          prUrl: battle.prUrl,
+          winningAgentId: battle.winningAgentId,
+        });
+      } else {
+        this.dispatch('battle.defeat', {
+          battle: this.describeBattle(battle),
+          agents: battle.agents.map((agent) => this.describeAgent(agent)),
+        });
+      }
+    });
+  }
+
+  /**
+   * Deliveries, newest first
+   */
+  getDeliveries(limit: number): WebhookDelivery[] {
+    return this.deliveries.slice(-limit).reverse();
+  }
+
+  /**
+   * Send a ping to every configured webhook, whatever its event filter
+   */
+  ping(): WebhookDelivery[] {
+    const webhooks = githubService.getConfig()?.webhooks ?? [];
+    return webhooks.map((webhook) =>
+      this.deliver(webhook, 'ping', { message: 'Webhook test from the issue battle arena' })
+    );
+  }
+
+  /**
+   * Stop pending retries, their deliveries stay pending in the log
+   */
+  shutdown(): void {
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  private dispatch(event: WebhookEvent, data: Record<string, unknown>): void {
+    const webhooks = githubService.getConfig()?.webhooks ?? [];
+    for (const webhook of webhooks) {
+      if (!webhook.events || webhook.events.includes(event)) {
+        this.deliver(webhook, event, data);
+      }
+    }
+  }
+
+  private deliver(
+    webhook: WebhookConfig,
+    event: WebhookDelivery['event'],
+    data: Record<string, unknown>
+  ): WebhookDelivery {
+    const id = nanoid(10);
+    const delivery: WebhookDelivery = {
+      id,
+      event,
+      url: webhook.url,
+      status: 'pending',
+      createdAt: new Date(),
+      payload: { id, event, sentAt: new Date().toISOString(), ...data },
+      attempts: [],
+    };
+
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > MAX_LOGGED_DELIVERIES) {
+      this.deliveries.splice(0, this.deliveries.length - MAX_LOGGED_DELIVERIES);
+    }
+
+    this.attempt(webhook, delivery).catch((error) => {
+      logger.error(`Webhook delivery ${id} failed unexpectedly`, error);
+    });
+    return delivery;
+  }
+
+  private async attempt(webhook: WebhookConfig, delivery: WebhookDelivery): Promise<void> {
+    this.retryTimers.delete(delivery.id);
+    delivery.nextAttemptAt = undefined;
+
+    // Same bytes for every try, so the signature stays valid
+    const body = JSON.stringify(delivery.payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'issue-battle-webhooks',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+    };
+    if (webhook.secret) {
+      const signature = createHmac('sha256', webhook.secret).update(body).digest('hex');
+      headers['X-Webhook-Signature-256'] = `sha256=${signature}`;
+    }
+
+    const startedAt = Date.now();
+    let retryable = true;
+    try {
+      const res = await fetch(webhook.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      delivery.attempts.push({
+        at: new Date(startedAt),
+        statusCode: res.status,
+        durationMs: Date.now() - startedAt,
+      });
+
+      if (res.ok) {
+        delivery.status = 'delivered';
+        logger.debug(`Webhook ${delivery.event} delivered to ${webhook.url}`);
+        return;
+      }
+      // Other client errors won't go away by sending the same request again
+      retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+    } catch (error) {
+      delivery.attempts.push({
+        at: new Date(startedAt),
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    if (!retryable || delivery.attempts.length >= MAX_ATTEMPTS) {
+      delivery.status = 'failed';
+      logger.warn(
+        `Webhook ${delivery.event} to ${webhook.url} failed after ${delivery.attempts.length} attempt(s)`
+      );
+      return;
+    }
+
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (delivery.attempts.length - 1);
+    delivery.nextAttemptAt = new Date(Date.now() + delay);
+    const timer = setTimeout(() => {
+      this.attempt(webhook, delivery).catch((error) => {
+        logger.error(`Webhook delivery ${delivery.id} failed unexpectedly`, error);
+      });
+    }, delay);
+    this.retryTimers.set(delivery.id, timer);
+  }
+
+  private describeBattle(battle: Battle): Record<string, unknown> {
+    return {
+      id: battle.id,
+      issueNumber: battle.issueNumber,
+      issueTitle: battle.issueTitle,
+      status: battle.status,
+      mode: battle.mode,
+      unitCount: battle.agents.length || battle.unitCount,
+      startedAt: battle.startedAt,
+      completedAt: battle.completedAt,
+    };
+  }
+
+  private describeAgent(agent: AgentInstance): Record<string, unknown> {
+    return {
+      id: agent.id,
+      unitIndex: agent.unitIndex,
+      unitType: agent.unitType,
+      model: agent.model,
+      status: agent.status,
+      error: agent.error,
+    };
+  }
+
+  private describePermission(permission: PendingPermission): Record<string, unknown> {
+    return {
+      id: permission.id,
+      type: permission.type,
+      title: permission.title,
+      pattern: permission.pattern,
+    };
+  }
+}
+
+// Singleton instance
+export const webhookService = new WebhookService();
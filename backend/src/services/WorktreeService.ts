@@ -1,10 +1,22 @@
 import { simpleGit, SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import path from 'path';
+import os from 'os';
 import { logger } from '../utils/logger.js';
 
-const WORKTREES_DIR = path.join(process.cwd(), 'worktrees');
+export const WORKTREES_DIR = path.join(process.cwd(), 'worktrees');
 const MAIN_REPO_DIR = path.join(WORKTREES_DIR, 'main-repo');
+const BATTLE_DIR_PREFIX = 'battle-';
+const ATTEMPT_BRANCH_PATTERN = /^fix\/issue-(\d+)-attempt-(.+)-(\d+)$/;
+// Branches pushed for export live under this prefix
+const PUSH_BRANCH_PREFIX = 'swarm/';
+
+export interface AttemptBranch {
+  name: string;
+  issueNumber: number;
+  battleId: string;
+  unitIndex: number;
+}
 
 export class WorktreeService {
   private mainGit: SimpleGit | null = null;
@@ -40,6 +52,23 @@ export class WorktreeService {
     return this.isInitialized && this.mainGit !== null;
   }
 
+  /**
+   * Get a git handle for the main repo, opening a clone left by a previous run
+   * if the service hasn't been initialized yet (e.g. during startup reconciliation).
+   */
+  private async getMainGit(): Promise<SimpleGit | null> {
+    if (this.mainGit) {
+      return this.mainGit;
+    }
+
+    try {
+      await fs.access(path.join(MAIN_REPO_DIR, '.git'));
+      return simpleGit(MAIN_REPO_DIR);
+    } catch {
+      return null;
+    }
+  }
+
   async createWorktreesForBattle(
     battleId: string,
     issueNumber: number,
@@ -49,8 +78,7 @@ export class WorktreeService {
       throw new Error('WorktreeService not initialized');
     }
 
-    const battleDir = path.join(WORKTREES_DIR, `battle-${battleId}`);
-    await fs.mkdir(battleDir, { recursive: true });
+    await fs.mkdir(this.getBattleDir(battleId), { recursive: true });
 
     const worktreePaths: string[] = [];
 
@@ -66,31 +94,105 @@ export class WorktreeService {
     }
 
     for (let i = 0; i < unitCount; i++) {
-      const agentDir = path.join(battleDir, `agent-${i}`);
-      const branchName = `fix/issue-${issueNumber}-attempt-${battleId}-${i}`;
+      worktreePaths.push(
+        await this.createAgentWorktree(this.mainGit, battleId, issueNumber, i, defaultBranch)
+      );
+    }
 
-      try {
-        // Create worktree with a new branch
-        await this.mainGit.raw([
-          'worktree',
-          'add',
-          '-b',
-          branchName,
-          agentDir,
-          defaultBranch,
-        ]);
-
-        worktreePaths.push(agentDir);
-        logger.info(`Created worktree for agent ${i} at ${agentDir}`);
-      } catch (error) {
-        logger.error(`Failed to create worktree for agent ${i}`, error);
-        throw error;
-      }
+    return worktreePaths;
+  }
+
+  /**
+   * Add worktrees for agents joining a running battle. They branch off the
+   * current default branch without pulling, so they share the battle's base.
+   */
+  async addAgentWorktrees(
+    battleId: string,
+    issueNumber: number,
+    firstIndex: number,
+    count: number
+  ): Promise<string[]> {
+    if (!this.mainGit) {
+      throw new Error('WorktreeService not initialized');
     }
 
+    const branches = await this.mainGit.branch();
+    const defaultBranch = branches.current || 'main';
+
+    const worktreePaths: string[] = [];
+    for (let i = firstIndex; i < firstIndex + count; i++) {
+      worktreePaths.push(
+        await this.createAgentWorktree(this.mainGit, battleId, issueNumber, i, defaultBranch)
+      );
+    }
     return worktreePaths;
   }
 
+  /**
+   * Replace an agent's worktree and branch with a fresh checkout of the
+   * default branch, discarding everything the agent did
+   */
+  async recreateAgentWorktree(
+    battleId: string,
+    issueNumber: number,
+    unitIndex: number
+  ): Promise<string> {
+    if (!this.mainGit) {
+      throw new Error('WorktreeService not initialized');
+    }
+
+    const agentDir = this.getAgentDir(battleId, unitIndex);
+    const branchName = this.getBranchName(battleId, issueNumber, unitIndex);
+
+    try {
+      await this.mainGit.raw(['worktree', 'remove', '--force', agentDir]);
+    } catch (error) {
+      logger.warn(`Could not remove worktree ${agentDir}`, error);
+    }
+    await fs.rm(agentDir, { recursive: true, force: true });
+    await this.deleteBranch(branchName).catch((error) => {
+      logger.warn(`Could not delete branch ${branchName}`, error);
+    });
+
+    const branches = await this.mainGit.branch();
+    const defaultBranch = branches.current || 'main';
+
+    return this.createAgentWorktree(this.mainGit, battleId, issueNumber, unitIndex, defaultBranch);
+  }
+
+  private async createAgentWorktree(
+    mainGit: SimpleGit,
+    battleId: string,
+    issueNumber: number,
+    unitIndex: number,
+    defaultBranch: string
+  ): Promise<string> {
+    const agentDir = this.getAgentDir(battleId, unitIndex);
+    const branchName = this.getBranchName(battleId, issueNumber, unitIndex);
+
+    try {
+      // Create worktree with a new branch
+      await mainGit.raw(['worktree', 'add', '-b', branchName, agentDir, defaultBranch]);
+      logger.info(`Created worktree for agent ${unitIndex} at ${agentDir}`);
+      return agentDir;
+    } catch (error) {
+      logger.error(`Failed to create worktree for agent ${unitIndex}`, error);
+      throw error;
+    }
+  }
+
+  private getBattleDir(battleId: string): string {
+    return path.join(WORKTREES_DIR, `${BATTLE_DIR_PREFIX}${battleId}`);
+  }
+
+  private getAgentDir(battleId: string, unitIndex: number): string {
+    return path.join(this.getBattleDir(battleId), `agent-${unitIndex}`);
+  }
+
+  private getBranchName(battleId: string, issueNumber: number, unitIndex: number): string {
+    return `fix/issue-${issueNumber}-attempt-${battleId}-${unitIndex}`;
+  }
+
   async commitAndPush(worktreePath: string, issueNumber: number): Promise<string> {
     const git = simpleGit(worktreePath);
 
@@ -122,29 +224,160 @@ export class WorktreeService {
     }
   }
 
-  async cleanupBattle(battleId: string): Promise<void> {
-    if (!this.mainGit) {
-      return;
+  async getHeadCommit(worktreePath: string): Promise<string> {
+    const git = simpleGit(worktreePath);
+    return (await git.revparse(['HEAD'])).trim();
+  }
+
+  /**
+   * Throw away everything an agent did in its worktree - commits, changes
+   * and untracked files - and go back to the given commit. Ignored files
+   * such as installed dependencies are kept.
+   */
+  async resetWorktree(worktreePath: string, commit: string): Promise<void> {
+    const git = simpleGit(worktreePath);
+    await git.reset(['--hard', commit]);
+    await git.clean('f', ['-d']);
+    logger.info(`Reset worktree ${worktreePath} to ${commit}`);
+  }
+
+  /**
+   * Unified diff of everything an agent changed in its worktree, including
+   * new untracked files and its own commits, relative to the given commit
+   */
+  async getDiff(worktreePath: string, base: string = 'HEAD'): Promise<string> {
+    const git = simpleGit(worktreePath);
+    return this.withScratchIndex(git, (tmpGit) => tmpGit.diff(['--cached', base]));
+  }
+
+  /**
+   * Everything an agent did since `base` as a `git format-patch` mbox. Work
+   * that isn't committed yet is included as one extra commit.
+   */
+  async formatPatch(worktreePath: string, base: string, message: string): Promise<string> {
+    const git = simpleGit(worktreePath);
+    const commit = await this.createSnapshotCommit(git, message);
+    return git.raw(['format-patch', '--stdout', `${base}..${commit}`]);
+  }
+
+  /**
+   * Push an agent's work, including uncommitted changes, as a new branch on
+   * origin. The agent's own branch and worktree are left untouched.
+   *
+   * Branch names always start with PUSH_BRANCH_PREFIX (added if missing) and
+   * must not exist on origin yet, so unreviewed work can never land on the
+   * default branch or any other existing one.
+   */
+  async pushAsBranch(
+    worktreePath: string,
+    name: string,
+    message: string
+  ): Promise<{ branchName: string; commit: string }> {
+    const git = simpleGit(worktreePath);
+    const branchName = name.startsWith(PUSH_BRANCH_PREFIX) ? name : `${PUSH_BRANCH_PREFIX}${name}`;
+    // Throws on names git wouldn't accept
+    await git.raw(['check-ref-format', '--branch', branchName]);
+
+    const existing = await git.raw(['ls-remote', '--heads', 'origin', `refs/heads/${branchName}`]);
+    if (existing.trim()) {
+      throw new Error(`Branch ${branchName} already exists on origin`);
+    }
+
+    const commit = await this.createSnapshotCommit(git, message);
+    await git.push('origin', `${commit}:refs/heads/${branchName}`);
+    logger.info(`Pushed ${commit} from ${worktreePath} as ${branchName}`);
+    return { branchName, commit };
+  }
+
+  /**
+   * Commit the worktree's current state on top of HEAD without touching its
+   * index or branch. Returns HEAD itself if there is nothing uncommitted.
+   */
+  private async createSnapshotCommit(git: SimpleGit, message: string): Promise<string> {
+    const head = (await git.revparse(['HEAD'])).trim();
+
+    return this.withScratchIndex(git, async (tmpGit) => {
+      const tree = (await tmpGit.raw(['write-tree'])).trim();
+      const headTree = (await git.revparse([`${head}^{tree}`])).trim();
+      if (tree === headTree) {
+        return head;
+      }
+      return (await tmpGit.raw(['commit-tree', tree, '-p', head, '-m', message])).trim();
+    });
+  }
+
+  /**
+   * Run git against a throwaway index holding the whole worktree, untracked
+   * files included. The agent may still be working in the worktree, so its
+   * real index is never touched.
+   */
+  private async withScratchIndex<T>(
+    git: SimpleGit,
+    run: (tmpGit: SimpleGit) => Promise<T>
+  ): Promise<T> {
+    const indexFile = path.join(
+      os.tmpdir(),
+      `scratch-index-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    const tmpGit = git.env({ ...process.env, GIT_INDEX_FILE: indexFile });
+
+    try {
+      await tmpGit.raw(['read-tree', 'HEAD']);
+      await tmpGit.raw(['add', '--all']);
+      return await run(tmpGit);
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  async worktreeExists(worktreePath: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(worktreePath, '.git'));
+      return true;
+    } catch {
+      return false;
     }
+  }
+
+  async getDiffStats(
+    worktreePath: string,
+    base: string = 'HEAD'
+  ): Promise<{ filesTouched: number; linesAdded: number; linesDeleted: number }> {
+    const git = simpleGit(worktreePath);
+    const summary = await this.withScratchIndex(git, (tmpGit) =>
+      tmpGit.diffSummary(['--cached', base])
+    );
+    return {
+      filesTouched: summary.changed,
+      linesAdded: summary.insertions,
+      linesDeleted: summary.deletions,
+    };
+  }
 
+  async cleanupBattle(battleId: string): Promise<void> {
+    const mainGit = await this.getMainGit();
     const battleDir = path.join(WORKTREES_DIR, `battle-${battleId}`);
 
     try {
-      // List all worktrees
-      const worktreeList = await this.mainGit.raw(['worktree', 'list', '--porcelain']);
-      const worktreePaths = worktreeList
-        .split('\n')
-        .filter((line) => line.startsWith('worktree '))
-        .map((line) => line.replace('worktree ', ''));
-
-      // Remove worktrees in this battle directory
-      for (const wtPath of worktreePaths) {
-        if (wtPath.includes(`battle-${battleId}`)) {
-          try {
-            await this.mainGit.raw(['worktree', 'remove', '--force', wtPath]);
-            logger.info(`Removed worktree ${wtPath}`);
-          } catch (error) {
-            logger.warn(`Could not remove worktree ${wtPath}`, error);
+      // Without a main repo there are no worktree registrations to remove,
+      // but the directory itself may still be left over
+      if (mainGit) {
+        // List all worktrees
+        const worktreeList = await mainGit.raw(['worktree', 'list', '--porcelain']);
+        const worktreePaths = worktreeList
+          .split('\n')
+          .filter((line) => line.startsWith('worktree '))
+          .map((line) => line.replace('worktree ', ''));
+
+        // Remove worktrees in this battle directory
+        for (const wtPath of worktreePaths) {
+          if (wtPath.includes(`battle-${battleId}`)) {
+            try {
+              await mainGit.raw(['worktree', 'remove', '--force', wtPath]);
+              logger.info(`Removed worktree ${wtPath}`);
+            } catch (error) {
+              logger.warn(`Could not remove worktree ${wtPath}`, error);
+            }
           }
         }
       }
@@ -157,6 +390,73 @@ export class WorktreeService {
     }
   }
 
+  /**
+   * List the IDs of battles that still have a directory under worktrees/
+   */
+  async listBattleDirectories(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(WORKTREES_DIR, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory() && entry.name.startsWith(BATTLE_DIR_PREFIX))
+        .map((entry) => entry.name.slice(BATTLE_DIR_PREFIX.length));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * List the agent worktree paths that exist on disk for a battle
+   */
+  async listAgentWorktrees(battleId: string): Promise<string[]> {
+    const battleDir = path.join(WORKTREES_DIR, `${BATTLE_DIR_PREFIX}${battleId}`);
+    try {
+      const entries = await fs.readdir(battleDir, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory() && entry.name.startsWith('agent-'))
+        .map((entry) => path.join(battleDir, entry.name));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * List local fix/issue-*-attempt-* branches in the main repo
+   */
+  async listAttemptBranches(): Promise<AttemptBranch[]> {
+    const mainGit = await this.getMainGit();
+    if (!mainGit) {
+      return [];
+    }
+
+    const branches = await mainGit.branchLocal();
+    const result: AttemptBranch[] = [];
+    for (const name of branches.all) {
+      const match = name.match(ATTEMPT_BRANCH_PATTERN);
+      if (match) {
+        result.push({
+          name,
+          issueNumber: parseInt(match[1], 10),
+          battleId: match[2],
+          unitIndex: parseInt(match[3], 10),
+        });
+      }
+    }
+    return result;
+  }
+
+  async deleteBranch(branchName: string): Promise<void> {
+    const mainGit = await this.getMainGit();
+    if (!mainGit) {
+      return;
+    }
+
+    // Drop stale worktree registrations first, otherwise git refuses to delete
+    // a branch that is still "checked out" in a removed worktree
+    await mainGit.raw(['worktree', 'prune']);
+    await mainGit.deleteLocalBranch(branchName, true);
+    logger.info(`Deleted branch ${branchName}`);
+  }
+
   async cleanupAllWorktrees(): Promise<void> {
     if (!this.mainGit) {
       return;
@@ -1,9 +1,58 @@
 import { z } from "zod";
 
+// Unit types representing different LLM solving approaches
+export const UNIT_TYPES = ["knight", "archer", "mage", "spearman"] as const;
+export type UnitType = (typeof UNIT_TYPES)[number];
+
+// Personality/approach for each unit type, with the instructions added to its prompt
+export interface UnitPersonality {
+  name: string;
+  approach: string;
+  instructions: string;
+}
+
+export const UNIT_PERSONALITIES: Record<UnitType, UnitPersonality> = {
+  knight: {
+    name: "Tank",
+    approach: "Thorough",
+    instructions:
+      "Be thorough. Understand the root cause before changing anything, handle edge cases, " +
+      "and add or update tests and documentation that cover the fix.",
+  },
+  archer: {
+    name: "Sniper",
+    approach: "Minimal",
+    instructions:
+      "Make the smallest valid change that fixes the issue. Touch as few files and lines as " +
+      "possible and do not refactor or reformat unrelated code.",
+  },
+  mage: {
+    name: "Refactorer",
+    approach: "Creative",
+    instructions:
+      "Fix the issue and improve the code around it where that makes the fix cleaner - " +
+      "simplify, rename or restructure nearby code if it helps, without changing unrelated behavior.",
+  },
+  spearman: {
+    name: "Speedster",
+    approach: "Fast",
+    instructions:
+      "Get a working fix in quickly. Go straight for the most direct solution and avoid " +
+      "lengthy exploration of the codebase.",
+  },
+};
+
+// Provider and model an agent runs on, as known to OpenCode
+export interface ModelRef {
+  providerID: string;
+  modelID: string;
+}
+
 // Agent status within a battle
 export type AgentStatus =
   | "pending"
   | "working"
+  | "verifying"
   | "success"
   | "failed"
   | "cancelled";
@@ -76,19 +125,197 @@ export interface AgentDetailedState {
   completedAt?: number;
 }
 
-// Battle status
-export type BattleStatus = "pending" | "fighting" | "victory" | "defeat";
+// Battle status ("interrupted" = was in flight when the backend stopped,
+// "awaiting_review" = review mode candidates are waiting for a human pick)
+export type BattleStatus =
+  | "queued"
+  | "pending"
+  | "fighting"
+  | "judging"
+  | "awaiting_review"
+  | "victory"
+  | "defeat"
+  | "interrupted";
+
+// Why a battle ended in defeat. Only "agents_failed" means the issue was
+// attempted and not solved (agents failed, ran out of time or budget).
+export type DefeatReason = "agents_failed" | "cancelled" | "start_failed" | "pr_failed";
+
+// How a battle picks its winner:
+// - race:  the first agent to finish with changes wins
+// - judge: all agents run to completion (or a deadline), then every
+//          candidate is scored and the best one wins
+// - review: like judge, but a human picks the winner from the candidates
+export type BattleMode = "race" | "judge" | "review";
+
+// One build/lint/test command run against an agent's worktree
+export type VerificationStepName = "build" | "lint" | "test";
+
+export interface VerificationStep {
+  name: VerificationStepName;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  // Tail of combined stdout/stderr
+  output: string;
+  durationMs: number;
+}
+
+// Result of verifying an agent's changes before it counts as successful
+export interface VerificationResult {
+  passed: boolean;
+  steps: VerificationStep[];
+  startedAt: number;
+  completedAt?: number;
+}
+
+// Judge mode score for one candidate
+export interface JudgeScore {
+  total: number;
+  // null when no test command is configured. Not part of the total: failing
+  // tests fail verification, so every candidate has passed them
+  testsPassed: boolean | null;
+  filesTouched: number;
+  linesAdded: number;
+  linesDeleted: number;
+  // 0-10 from the reviewer LLM, null when the pass is disabled or failed
+  reviewerScore: number | null;
+  scoredAt: number;
+}
 
 // Each unit = one OpenCode agent instance
 export interface AgentInstance {
   id: string;
   unitIndex: number;
+  // Personality the agent was prompted with
+  unitType: UnitType;
+  // Model the agent runs on (server default if unset)
+  model?: ModelRef;
   status: AgentStatus;
   worktreePath: string;
+  // Commit the worktree was created from, for retries
+  baseCommit?: string;
   sessionId: string | null;
   error?: string;
   // Real-time detailed state
   detailedState?: AgentDetailedState;
+  // Build/lint/test results, set once the agent finishes with changes
+  verification?: VerificationResult;
+  // Set once a judge mode battle scores this candidate
+  judgeScore?: JudgeScore;
+  // When the agent's current session started, for the time budget
+  startedAt?: Date;
+  // Estimated from the price table, unset if the model has no price
+  costUsd?: number;
+  // Spent by earlier sessions (before respawns, retries and resumes), which
+  // detailedState and costUsd no longer show. Cost is unset if any was unpriced.
+  spentTokens?: number;
+  spentCostUsd?: number;
+  // Timeouts, stalls and loops, oldest first
+  incidents?: AgentIncident[];
+  // Guidance sent to the agent, oldest first
+  messages?: AgentMessage[];
+  respawnCount?: number;
+  // Cut off mid-run by a backend restart, so resuming the battle restarts it
+  interruptedByRestart?: boolean;
+  // Permission requests answered by a rule, oldest first
+  permissionDecisions?: PermissionDecision[];
+}
+
+// Follow-up instruction sent into an agent's session mid-battle
+export interface AgentMessage {
+  text: string;
+  sentAt: Date;
+  // Sent to every agent of the battle at once
+  broadcast: boolean;
+}
+
+// Why an agent was considered stuck and killed
+export type IncidentKind = "timeout" | "stall" | "loop";
+
+export interface AgentIncident {
+  kind: IncidentKind;
+  message: string;
+  at: Date;
+  // Whether the agent was restarted in a fresh worktree afterwards
+  respawned: boolean;
+}
+
+// When an agent session counts as stuck. Unset fields use the defaults.
+export interface SessionLimits {
+  // Kill the session after this long
+  timeoutMinutes?: number;
+  // Kill the session after this long without events or completed steps
+  stallMinutes?: number;
+  // Kill the session after this many identical tool errors in a row
+  maxRepeatedToolErrors?: number;
+}
+
+// Limits for one agent or a whole battle. Unset limits are unlimited.
+export interface Budget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxMinutes?: number;
+}
+
+// USD per million tokens. Reasoning tokens are billed as output.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// One part of an agent's conversation. Parts are updated while they stream,
+// so entries are keyed by the OpenCode part id.
+export type TranscriptEntryKind = "prompt" | "text" | "reasoning" | "tool";
+
+export interface TranscriptEntry {
+  id: string;
+  kind: TranscriptEntryKind;
+  // When the part was first seen
+  at: Date;
+  // Prompt, text and reasoning content
+  text?: string;
+  // Tool calls
+  tool?: string;
+  status?: string;
+  title?: string;
+  input?: Record<string, unknown>;
+  output?: string;
+  error?: string;
+}
+
+export type PermissionResponse = "once" | "always" | "reject";
+
+// Answers matching permission requests without asking a human. Every field
+// that is set must match; globs support * and ?. In allow rules the wildcards
+// don't match ; & | < > backticks, $( or newlines, so they cover one command.
+export interface PermissionRule {
+  type?: string;
+  // Allow rules match if all of the request's patterns do, reject rules if any does
+  pattern?: string;
+  // Globs matched against metadata values (non-strings as JSON)
+  metadata?: Record<string, string>;
+  response: PermissionResponse;
+}
+
+// Permission request answered by a rule instead of a human
+export interface PermissionDecision {
+  permissionId: string;
+  type: string;
+  title: string;
+  response: PermissionResponse;
+  // Index into the repository's permission rules
+  ruleIndex: number;
+  decidedAt: Date;
+}
+
+// What started a battle from GitHub: the configured label, or a /swarm comment
+export interface BattleTrigger {
+  source: "label" | "comment";
+  // GitHub login of whoever added the label or wrote the comment
+  sender: string;
+  deliveryId: string;
 }
 
 // A "Battle" is a swarm attack on one issue with multiple agents
@@ -104,6 +331,109 @@ export interface Battle {
   completedAt?: Date;
   prUrl?: string;
   winningAgentId?: string;
+  defeatReason?: DefeatReason;
+  // Interrupted battle whose worktrees survived and can be restarted
+  resumable?: boolean;
+  // Finished battle whose worktrees are kept for exports until then
+  worktreesExpireAt?: Date;
+  // Started from a GitHub webhook rather than from the arena
+  trigger?: BattleTrigger;
+  // Progress comment on the issue, and the battle status it last showed
+  issueCommentId?: number;
+  issueCommentStatus?: BattleStatus;
+  // Requested number of agents (agents are only created once the battle starts)
+  unitCount: number;
+  // Unit type per agent, cycled if shorter than unitCount
+  unitTypes?: UnitType[];
+  // Model per unit index, falling back to modelsByUnitType, then the server default
+  models?: ModelRef[];
+  modelsByUnitType?: Partial<Record<UnitType, ModelRef>>;
+  mode: BattleMode;
+  // Judge and review modes: stop waiting for agents after this deadline
+  deadlineMinutes?: number;
+  deadlineAt?: Date;
+  // Judge mode: ask a reviewer LLM to rate each candidate diff
+  reviewer?: boolean;
+  // Queue ordering - higher priority starts first
+  priority?: number;
+  queuedAt?: Date;
+  queuePosition?: number;
+  // Override the budgets from the config
+  agentBudget?: Budget;
+  battleBudget?: Budget;
+  limits?: SessionLimits;
+  // How many times a stuck agent is restarted in a fresh worktree
+  maxRespawns?: number;
+}
+
+// Events on the internal battle event bus, keyed by name. "battle.changed"
+// follows every change to a battle, including the ones with a more specific
+// event; only "agent.progress" stands alone since it fires so often.
+export interface BattleEventMap {
+  "battle.changed": { battle: Battle };
+  // Agent sessions are starting, when the battle launches or resumes
+  "battle.started": { battle: Battle };
+  // Victory or defeat, including cancelled battles
+  "battle.ended": { battle: Battle };
+  "battle.removed": { battle: Battle };
+  "agent.progress": { battle: Battle; agent: AgentInstance };
+  // Finished with changes that passed verification, if configured
+  "agent.succeeded": { battle: Battle; agent: AgentInstance };
+  "agent.failed": { battle: Battle; agent: AgentInstance; error: string };
+  // Waiting for a human to answer
+  "permission.requested": {
+    battle: Battle;
+    agent: AgentInstance;
+    permission: PendingPermission;
+  };
+  // Answered by one of the repository's permission rules
+  "permission.decided": {
+    battle: Battle;
+    agent: AgentInstance;
+    decision: PermissionDecision;
+  };
+  "pr.created": { battle: Battle; agent: AgentInstance; prUrl: string };
+}
+
+export type BattleEventName = keyof BattleEventMap;
+
+// Pushed to clients of the battle event stream. A snapshot of every battle
+// comes first, then lifecycle changes and per-agent progress deltas.
+export type BattleStreamEvent =
+  | { type: "snapshot"; battles: Battle[] }
+  | { type: "battle"; battle: Battle }
+  | { type: "battle_removed"; battleId: string }
+  | {
+      type: "progress";
+      battleId: string;
+      agentId: string;
+      // Only the fields that changed since the last event for this agent
+      detailedState: Partial<AgentDetailedState>;
+      // Fields that were unset since, which JSON can't carry as undefined
+      cleared: (keyof AgentDetailedState)[];
+      costUsd?: number;
+    };
+
+// What startup reconciliation does with leftovers from a previous run
+export type OrphanPolicy = "cleanup" | "reattach" | "report";
+
+// Result of the startup reconciliation pass
+export interface ReconciliationReport {
+  policy: OrphanPolicy;
+  ranAt: Date;
+  worktrees: { found: string[]; removed: string[]; reattached: string[] };
+  branches: { found: string[]; deleted: string[] };
+  ports: { found: number[]; killed: number[] };
+  errors: string[];
+}
+
+// What autopilot has to go on beyond the current battle list, which loses
+// battles as they are removed
+export interface AutopilotStats {
+  // Tokens used by battles started today (server local time), removed ones included
+  tokensToday: number;
+  // Issues a battle was lost on, never retried automatically
+  defeatedIssues: number[];
 }
 
 // GitHub issue
@@ -115,6 +445,70 @@ export interface GitHubIssue {
   labels: string[];
   state: "open" | "closed";
   url: string;
+  // ISO timestamp
+  createdAt: string;
+}
+
+// How pull requests for winning agents are opened. Templates use
+// {{placeholders}}, see PullRequestService for the available ones.
+export interface PullRequestOptions {
+  titleTemplate?: string;
+  bodyTemplate?: string;
+  draft?: boolean;
+  labels?: string[];
+  assignees?: string[];
+  reviewers?: string[];
+  teamReviewers?: string[];
+}
+
+// Battle events an outgoing webhook can subscribe to
+export const WEBHOOK_EVENTS = [
+  "battle.started",
+  "permission.requested",
+  "battle.victory",
+  "battle.defeat",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Incoming GitHub webhook that starts battles on its own
+export interface GitHubWebhookConfig {
+  // Secret set on the GitHub webhook, verifies X-Hub-Signature-256
+  secret: string;
+  // Adding this label to an issue starts a battle, "swarm" if unset
+  label?: string;
+  // For labeled issues and /swarm without arguments, the repo's unitCount if unset
+  unitCount?: number;
+  unitTypes?: UnitType[];
+  mode?: BattleMode;
+}
+
+export interface WebhookConfig {
+  url: string;
+  // Every event if unset
+  events?: WebhookEvent[];
+  // Signs each body with HMAC-SHA256, sent as X-Webhook-Signature-256
+  secret?: string;
+}
+
+export interface WebhookAttempt {
+  at: Date;
+  // Unset when the request never got a response
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+// One event sent to one webhook, with every try so far
+export interface WebhookDelivery {
+  id: string;
+  // "ping" for test deliveries
+  event: WebhookEvent | "ping";
+  url: string;
+  status: "pending" | "delivered" | "failed";
+  createdAt: Date;
+  payload: Record<string, unknown>;
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: Date;
 }
 
 // Game configuration
@@ -124,22 +518,142 @@ export interface GameConfig {
   owner: string;
   repo: string;
   unitCount: number;
+  // Shell commands run in an agent's worktree before it counts as successful
+  buildCommand?: string;
+  lintCommand?: string;
+  testCommand?: string;
+  // Per-command timeout
+  verifyTimeoutSeconds?: number;
+  // Prices keyed by "providerID/modelID", or "default" for any other model
+  prices?: Record<string, ModelPrice>;
+  // Default budgets for battles that don't set their own
+  agentBudget?: Budget;
+  battleBudget?: Budget;
+  // Checked in order, the first matching rule answers a permission request
+  permissionRules?: PermissionRule[];
+  // How long finished battles keep their worktrees, 0 deletes them right away
+  worktreeRetentionHours?: number;
+  pullRequest?: PullRequestOptions;
+  // Post a comment on the issue when a battle starts and keep it up to date
+  issueComments?: boolean;
+  // API root for GitHub Enterprise or a local stand-in, api.github.com if unset
+  githubApiUrl?: string;
+  webhooks?: WebhookConfig[];
+  githubWebhook?: GitHubWebhookConfig;
 }
 
 // Zod schemas for validation
+export const BudgetSchema = z.object({
+  maxTokens: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+  maxMinutes: z.number().positive().optional(),
+});
+
+export const SessionLimitsSchema = z.object({
+  timeoutMinutes: z.number().positive().max(24 * 60).optional(),
+  stallMinutes: z.number().positive().max(24 * 60).optional(),
+  maxRepeatedToolErrors: z.number().int().min(2).optional(),
+});
+
+export const ModelPriceSchema = z.object({
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative(),
+});
+
+export const PermissionRuleSchema = z.object({
+  type: z.string().min(1).optional(),
+  pattern: z.string().min(1).optional(),
+  metadata: z.record(z.string()).optional(),
+  response: z.enum(["once", "always", "reject"]),
+});
+
+export const PullRequestOptionsSchema = z.object({
+  titleTemplate: z.string().min(1).max(256).optional(),
+  bodyTemplate: z.string().min(1).max(20000).optional(),
+  draft: z.boolean().optional(),
+  labels: z.array(z.string().min(1)).optional(),
+  assignees: z.array(z.string().min(1)).optional(),
+  reviewers: z.array(z.string().min(1)).optional(),
+  teamReviewers: z.array(z.string().min(1)).optional(),
+});
+
+export const WebhookConfigSchema = z.object({
+  url: z.string().url(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  secret: z.string().min(1).optional(),
+});
+
+export const GitHubWebhookConfigSchema = z.object({
+  secret: z.string().min(1),
+  label: z.string().min(1).optional(),
+  unitCount: z.number().int().min(1).max(20).optional(),
+  unitTypes: z.array(z.enum(UNIT_TYPES)).min(1).max(20).optional(),
+  mode: z.enum(["race", "judge", "review"]).optional(),
+});
+
 export const ConfigSchema = z.object({
   repoUrl: z.string().url(),
   pat: z.string().min(1),
   unitCount: z.number().int().min(1).max(20).optional().default(10),
+  buildCommand: z.string().min(1).optional(),
+  lintCommand: z.string().min(1).optional(),
+  testCommand: z.string().min(1).optional(),
+  verifyTimeoutSeconds: z.number().int().positive().max(3600).optional(),
+  prices: z.record(ModelPriceSchema).optional(),
+  agentBudget: BudgetSchema.optional(),
+  battleBudget: BudgetSchema.optional(),
+  permissionRules: z.array(PermissionRuleSchema).optional(),
+  worktreeRetentionHours: z.number().min(0).max(30 * 24).optional(),
+  pullRequest: PullRequestOptionsSchema.optional(),
+  issueComments: z.boolean().optional(),
+  githubApiUrl: z.string().url().optional(),
+  webhooks: z.array(WebhookConfigSchema).max(20).optional(),
+  githubWebhook: GitHubWebhookConfigSchema.optional(),
+});
+
+export const ModelRefSchema = z.object({
+  providerID: z.string().min(1),
+  modelID: z.string().min(1),
 });
 
 export const StartBattleSchema = z.object({
   issueNumber: z.number().int().positive(),
   unitCount: z.number().int().min(1).max(20),
+  unitTypes: z.array(z.enum(UNIT_TYPES)).min(1).max(20).optional(),
+  models: z.array(ModelRefSchema).max(20).optional(),
+  modelsByUnitType: z
+    .object({
+      knight: ModelRefSchema.optional(),
+      archer: ModelRefSchema.optional(),
+      mage: ModelRefSchema.optional(),
+      spearman: ModelRefSchema.optional(),
+    })
+    .optional(),
+  priority: z.number().int().optional(),
+  mode: z.enum(["race", "judge", "review"]).optional().default("race"),
+  deadlineMinutes: z.number().positive().max(24 * 60).optional(),
+  reviewer: z.boolean().optional(),
+  agentBudget: BudgetSchema.optional(),
+  battleBudget: BudgetSchema.optional(),
+  limits: SessionLimitsSchema.optional(),
+  maxRespawns: z.number().int().min(0).max(5).optional(),
+});
+
+export const ReinforceBattleSchema = z.object({
+  unitCount: z.number().int().min(1).max(20),
+  unitTypes: z.array(z.enum(UNIT_TYPES)).min(1).max(20).optional(),
+  models: z.array(ModelRefSchema).max(20).optional(),
+  modelsByUnitType: StartBattleSchema.shape.modelsByUnitType,
+});
+
+export const ReorderQueueSchema = z.object({
+  battleIds: z.array(z.string()),
 });
 
 export type ConfigInput = z.infer<typeof ConfigSchema>;
 export type StartBattleInput = z.infer<typeof StartBattleSchema>;
+export type StartBattleOptions = Omit<StartBattleInput, "issueNumber">;
+export type ReinforceBattleInput = z.infer<typeof ReinforceBattleSchema>;
 
 // Parse GitHub repo URL to extract owner and repo
 export function parseRepoUrl(
@@ -0,0 +1,29 @@
+// Characters that chain, redirect or substitute shell commands
+const SHELL_METACHARACTERS = ';&|<>`\\n\\r';
+
+export interface GlobOptions {
+  // Keep wildcards from matching shell metacharacters and `$(`, so a glob
+  // meant for one command can't cover a second one chained after it
+  shellSafe?: boolean;
+}
+
+/**
+ * Convert a glob to an anchored regular expression. `*` matches any run of
+ * characters (including `/`), `?` matches a single character.
+ */
+export function globToRegExp(glob: string, options: GlobOptions = {}): RegExp {
+  const anyChar = options.shellSafe ? `(?!\\$\\()[^${SHELL_METACHARACTERS}]` : '.';
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return `(?:${anyChar})*`;
+      if (char === '?') return anyChar;
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+export function matchesGlob(value: string, glob: string, options?: GlobOptions): boolean {
+  return globToRegExp(glob, options).test(value);
+}
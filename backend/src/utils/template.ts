@@ -0,0 +1,9 @@
+/**
+ * Fill `{{name}}` placeholders from `values`. Unknown placeholders are left
+ * as they are so a typo in a template shows up in the output.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
@@ -1,22 +1,49 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { GameCanvas } from './components/GameCanvas';
 import { RepoSetup } from './components/RepoSetup';
+import { ModelSettings } from './components/ModelSettings';
+import { AutopilotOptions } from './components/AutopilotOptions';
 import { BattlePanel } from './components/BattlePanel';
 import { useGameStore } from './stores/gameStore';
 import { useConfig, useIssues } from './hooks/useGitHub';
+import { useBattleStream } from './hooks/useBattles';
+import type { BattleMode } from './types';
 
 // =============================================================================
 // APP
 // =============================================================================
 // Main application component. Orchestrates game canvas and UI overlays.
 
+// The mode button cycles through these
+const BATTLE_MODES: Record<BattleMode, { label: string; description: string; next: BattleMode }> = {
+  race: { label: 'Race', description: 'Race: first agent to finish wins', next: 'judge' },
+  judge: {
+    label: 'Judge',
+    description: 'Judge: all agents finish, best-scored candidate wins',
+    next: 'review',
+  },
+  review: {
+    label: 'Review',
+    description: 'Review: all agents finish, you pick the candidate to open a PR for',
+    next: 'race',
+  },
+};
+
 function App() {
   const showSetup = useGameStore((state) => state.showSetup);
   const setShowSetup = useGameStore((state) => state.setShowSetup);
   const config = useGameStore((state) => state.config);
+  const battleMode = useGameStore((state) => state.battleMode);
+  const setBattleMode = useGameStore((state) => state.setBattleMode);
+  const modelsByUnitType = useGameStore((state) => state.modelsByUnitType);
+  const autopilot = useGameStore((state) => state.autopilot);
+  const setAutopilot = useGameStore((state) => state.setAutopilot);
+  const [showModels, setShowModels] = useState(false);
+  const [showAutopilot, setShowAutopilot] = useState(false);
 
   const { isLoading: configLoading } = useConfig();
   const { isLoading: issuesLoading, error: issuesError } = useIssues();
+  useBattleStream();
 
   // Show setup if not configured
   useEffect(() => {
@@ -36,6 +63,8 @@ function App() {
   return (
     <div className="w-full h-screen overflow-hidden flex">
       {showSetup && <RepoSetup onClose={() => setShowSetup(false)} />}
+      {showModels && <ModelSettings onClose={() => setShowModels(false)} />}
+      {showAutopilot && <AutopilotOptions onClose={() => setShowAutopilot(false)} />}
 
       {config && (
         <>
@@ -52,6 +81,36 @@ function App() {
               >
                 Change
               </button>
+              <button
+                onClick={() => setBattleMode(BATTLE_MODES[battleMode].next)}
+                title={BATTLE_MODES[battleMode].description}
+                className="px-2 py-1 text-[10px] font-mono bg-transparent border border-game-muted rounded text-game-muted cursor-pointer hover:text-white hover:border-white transition-colors"
+              >
+                Mode: {BATTLE_MODES[battleMode].label}
+              </button>
+              <button
+                onClick={() => setShowModels(true)}
+                title="Choose the model each unit type runs on"
+                className="px-2 py-1 text-[10px] font-mono bg-transparent border border-game-muted rounded text-game-muted cursor-pointer hover:text-white hover:border-white transition-colors"
+              >
+                Models: {Object.keys(modelsByUnitType).length > 0 ? 'Custom' : 'Default'}
+              </button>
+              <button
+                onClick={() => setAutopilot({ enabled: !autopilot.enabled })}
+                title="Send idle units to open issues automatically"
+                className={`px-2 py-1 text-[10px] font-mono bg-transparent border rounded cursor-pointer hover:text-white hover:border-white transition-colors ${
+                  autopilot.enabled ? 'border-game-accent text-white' : 'border-game-muted text-game-muted'
+                }`}
+              >
+                Autopilot: {autopilot.enabled ? 'On' : 'Off'}
+              </button>
+              <button
+                onClick={() => setShowAutopilot(true)}
+                title="Choose which issues autopilot attacks and its limits"
+                className="px-2 py-1 text-[10px] font-mono bg-transparent border border-game-muted rounded text-game-muted cursor-pointer hover:text-white hover:border-white transition-colors"
+              >
+                ⚙
+              </button>
             </div>
 
             {/* Loading/error states */}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { useAutopilotStats, useBattles } from '../hooks/useBattles';
+import { getAutopilotBlocker } from '../utils/autopilot';
+
+// =============================================================================
+// AUTOPILOT OPTIONS
+// =============================================================================
+// Modal for choosing which issues autopilot attacks and how much it may spend.
+
+interface AutopilotOptionsProps {
+  onClose: () => void;
+}
+
+function formatLabels(labels: string[]): string {
+  return labels.join(', ');
+}
+
+function parseLabels(value: string): string[] {
+  return value
+    .split(',')
+    .map((label) => label.trim())
+    .filter(Boolean);
+}
+
+const LABEL_FIELDS = [
+  { key: 'includeLabels', name: 'Only labels', placeholder: 'any label' },
+  { key: 'excludeLabels', name: 'Skip labels', placeholder: 'wontfix, needs-design' },
+  { key: 'priorityLabels', name: 'Priority labels', placeholder: 'critical, bug' },
+] as const;
+
+const NUMBER_FIELDS = [
+  { key: 'maxConcurrentBattles', name: 'Max battles', min: 1 },
+  { key: 'unitsPerBattle', name: 'Units per battle', min: 1 },
+  { key: 'dailyTokenBudget', name: 'Daily tokens (0 = no limit)', min: 0 },
+] as const;
+
+type LabelKey = (typeof LABEL_FIELDS)[number]['key'];
+type NumberKey = (typeof NUMBER_FIELDS)[number]['key'];
+
+export function AutopilotOptions({ onClose }: AutopilotOptionsProps) {
+  const autopilot = useGameStore((state) => state.autopilot);
+  const setAutopilot = useGameStore((state) => state.setAutopilot);
+  const { data: battles = [] } = useBattles();
+  const { data: stats } = useAutopilotStats(true);
+  const [labels, setLabels] = useState<Record<LabelKey, string>>(() => ({
+    includeLabels: formatLabels(autopilot.includeLabels),
+    excludeLabels: formatLabels(autopilot.excludeLabels),
+    priorityLabels: formatLabels(autopilot.priorityLabels),
+  }));
+  const [numbers, setNumbers] = useState<Record<NumberKey, string>>(() => ({
+    maxConcurrentBattles: String(autopilot.maxConcurrentBattles),
+    unitsPerBattle: String(autopilot.unitsPerBattle),
+    dailyTokenBudget: String(autopilot.dailyTokenBudget),
+  }));
+
+  const invalid = NUMBER_FIELDS.filter(({ key, min }) => {
+    const value = Number(numbers[key]);
+    return !Number.isInteger(value) || value < min;
+  }).map(({ key }) => key);
+
+  const blocker = autopilot.enabled ? getAutopilotBlocker(autopilot, battles, 0, stats) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invalid.length > 0) return;
+    setAutopilot({
+      includeLabels: parseLabels(labels.includeLabels),
+      excludeLabels: parseLabels(labels.excludeLabels),
+      priorityLabels: parseLabels(labels.priorityLabels),
+      maxConcurrentBattles: Number(numbers.maxConcurrentBattles),
+      unitsPerBattle: Number(numbers.unitsPerBattle),
+      dailyTokenBudget: Number(numbers.dailyTokenBudget),
+    });
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex justify-center items-center z-[1000]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-game-bg border-2 border-game-border rounded-lg p-6 max-w-md w-[90%] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-white text-lg font-mono mb-2 m-0">Autopilot</h2>
+        <p className="text-game-muted text-xs font-mono mb-4 m-0">
+          Idle units attack open issues on their own, highest priority label first, then
+          oldest. Issues lost before are skipped. Labels are comma separated.
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          {LABEL_FIELDS.map(({ key, name, placeholder }) => (
+            <label key={key} className="flex items-center gap-3 text-xs font-mono">
+              <span className="w-36 text-gray-400">{name}</span>
+              <input
+                type="text"
+                value={labels[key]}
+                onChange={(e) => setLabels({ ...labels, [key]: e.target.value })}
+                placeholder={placeholder}
+                className="flex-1 px-2 py-1.5 bg-game-panel border border-game-border rounded text-white placeholder:text-gray-600 focus:outline-none focus:border-game-accent"
+              />
+            </label>
+          ))}
+
+          {NUMBER_FIELDS.map(({ key, name, min }) => (
+            <label key={key} className="flex items-center gap-3 text-xs font-mono">
+              <span className="w-36 text-gray-400">{name}</span>
+              <input
+                type="number"
+                min={min}
+                value={numbers[key]}
+                onChange={(e) => setNumbers({ ...numbers, [key]: e.target.value })}
+                className={`flex-1 px-2 py-1.5 bg-game-panel border rounded text-white focus:outline-none focus:border-game-accent ${
+                  invalid.includes(key) ? 'border-game-error' : 'border-game-border'
+                }`}
+              />
+            </label>
+          ))}
+
+          <p className="text-game-muted text-xs font-mono m-0">
+            Tokens used today: {stats ? stats.tokensToday.toLocaleString() : '...'}
+            {blocker && <span className="text-game-error"> · Paused: {blocker}</span>}
+          </p>
+
+          <div className="flex gap-3 justify-end mt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-game-panel border border-game-border rounded text-gray-400 text-sm font-mono cursor-pointer hover:text-white hover:border-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={invalid.length > 0}
+              className="px-4 py-2 bg-game-accent border-none rounded text-white text-sm font-mono cursor-pointer hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
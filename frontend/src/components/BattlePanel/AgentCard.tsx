@@ -1,10 +1,26 @@
 import { useState } from 'react';
-import type { AgentInstance, AgentActivity, BattleStatus } from '../../types';
+import type { AgentInstance, AgentActivity, BattleMode, BattleStatus } from '../../types';
+import { UNIT_PERSONALITIES } from '../../types';
+import {
+  useCancelAgent,
+  useRetryAgent,
+  usePromoteAgent,
+  useSendAgentMessage,
+} from '../../hooks/useBattles';
+import { MessageInput } from './MessageInput';
+import { PermissionRequest } from './PermissionRequest';
+import { TranscriptViewer } from './TranscriptViewer';
+import { AgentExport } from './AgentExport';
 
 interface AgentCardProps {
+  battleId: string;
   agent: AgentInstance;
   isWinner: boolean;
   battleStatus: BattleStatus;
+  battleMode: BattleMode;
+  issueNumber: number;
+  // Whether the agent's worktree is still on disk for exports
+  worktreesAvailable: boolean;
 }
 
 // Activity to display info mapping
@@ -23,15 +39,30 @@ const ACTIVITY_CONFIG: Record<AgentActivity, { icon: string; label: string; colo
 const STATUS_CONFIG: Record<string, { icon: string; color: string; label: string }> = {
   pending: { icon: '○', color: 'text-game-muted', label: 'pending' },
   working: { icon: '◐', color: 'text-game-warning', label: 'working' },
+  verifying: { icon: '⧗', color: 'text-cyan-300', label: 'verifying' },
   success: { icon: '✓', color: 'text-game-success', label: 'success' },
   failed: { icon: '✗', color: 'text-game-error', label: 'failed' },
   cancelled: { icon: '⊘', color: 'text-game-muted', label: 'cancelled' },
   lost: { icon: '−', color: 'text-game-muted', label: 'lost' },
 };
 
-export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
+export function AgentCard({
+  battleId,
+  agent,
+  isWinner,
+  battleStatus,
+  battleMode,
+  issueNumber,
+  worktreesAvailable,
+}: AgentCardProps) {
   const [expanded, setExpanded] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const cancelAgent = useCancelAgent();
+  const retryAgent = useRetryAgent();
+  const promoteAgent = usePromoteAgent();
+  const sendMessage = useSendAgentMessage();
   const state = agent.detailedState;
+  const personality = agent.unitType ? UNIT_PERSONALITIES[agent.unitType] : null;
 
   // Determine display based on detailed state or fallback to status
   const activity = state?.activity ?? 'idle';
@@ -45,9 +76,24 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
   const statusConfig = STATUS_CONFIG[effectiveStatus] ?? STATUS_CONFIG.pending;
 
   // Use activity config for working agents, status config for terminal states
-  const displayIcon = isTerminal ? statusConfig.icon : activityConfig.icon;
-  const displayColor = isTerminal ? statusConfig.color : activityConfig.color;
-  const displayLabel = isTerminal ? statusConfig.label : activityConfig.label;
+  // (and while verifying, when the agent itself is already done)
+  const useStatus = isTerminal || agent.status === 'verifying';
+  const displayIcon = useStatus ? statusConfig.icon : activityConfig.icon;
+  const displayColor = useStatus ? statusConfig.color : activityConfig.color;
+  const displayLabel = useStatus ? statusConfig.label : activityConfig.label;
+
+  // Single-agent actions only make sense while the battle is still being fought
+  const canStop =
+    battleStatus === 'fighting' && (agent.status === 'working' || agent.status === 'pending');
+  const canRetry =
+    battleStatus === 'fighting' && (agent.status === 'failed' || agent.status === 'cancelled');
+  // Review mode: a human picks the winner among successful candidates
+  const canPromote =
+    battleMode === 'review' &&
+    agent.status === 'success' &&
+    (battleStatus === 'fighting' || battleStatus === 'awaiting_review');
+  const actionError = cancelAgent.error ?? retryAgent.error ?? promoteAgent.error;
+  const canMessage = battleStatus === 'fighting' && agent.status === 'working';
 
   // Calculate total tokens
   const totalTokens = state ? state.tokens.input + state.tokens.output : 0;
@@ -72,9 +118,26 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
         {/* Agent label */}
         <span className="text-sm flex-1">
           Unit {agent.unitIndex + 1}
+          {personality && (
+            <span className="ml-1 text-xs text-game-muted" title={personality.description}>
+              · {personality.name} ({personality.approach})
+            </span>
+          )}
+          {agent.model && (
+            <span className="ml-1 text-xs text-cyan-300" title={`${agent.model.providerID}/${agent.model.modelID}`}>
+              · {agent.model.modelID}
+            </span>
+          )}
           {isWinner && <span className="ml-1" title="Winner">🏆</span>}
         </span>
 
+        {/* Respawn count */}
+        {!!agent.respawnCount && (
+          <span className="text-xs text-orange-400" title={`Respawned ${agent.respawnCount}x`}>
+            ↻{agent.respawnCount}
+          </span>
+        )}
+
         {/* Activity label */}
         <span className={`text-xs ${displayColor}`}>
           {displayLabel}
@@ -86,6 +149,13 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
             {totalTokens.toLocaleString()}t
           </span>
         )}
+
+        {/* Estimated cost */}
+        {agent.costUsd !== undefined && (
+          <span className="text-xs text-game-muted">
+            ${agent.costUsd.toFixed(2)}
+          </span>
+        )}
       </button>
 
       {/* Expanded details */}
@@ -164,6 +234,63 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
             </div>
           )}
 
+          {/* Verification */}
+          {agent.verification && (
+            <div>
+              <div className="flex justify-between">
+                <span className="text-game-muted">Verification:</span>
+                <span className={agent.verification.passed ? 'text-game-success' : 'text-game-error'}>
+                  {agent.verification.passed ? 'passed' : 'failed'}
+                </span>
+              </div>
+              {agent.verification.steps.map((step) => (
+                <div key={step.name} className="mt-1">
+                  <div className="flex justify-between text-game-muted">
+                    <span>
+                      <span className={step.passed ? 'text-game-success' : 'text-game-error'}>
+                        {step.passed ? '✓' : '✗'}
+                      </span>{' '}
+                      {step.name}
+                    </span>
+                    <span>
+                      {step.timedOut ? 'timed out' : `${(step.durationMs / 1000).toFixed(1)}s`}
+                    </span>
+                  </div>
+                  {!step.passed && step.output && (
+                    <pre className="mt-1 p-2 max-h-40 overflow-auto bg-game-error/10 text-game-error rounded whitespace-pre-wrap break-all">
+                      {step.output}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Judge score */}
+          {agent.judgeScore && (
+            <div>
+              <div className="flex justify-between">
+                <span className="text-game-muted">Judge score:</span>
+                <span className={isWinner ? 'text-game-success font-bold' : ''}>
+                  {agent.judgeScore.total.toFixed(1)}
+                </span>
+              </div>
+              <div className="mt-1 text-game-muted">
+                Tests:{' '}
+                {agent.judgeScore.testsPassed === null
+                  ? 'n/a'
+                  : agent.judgeScore.testsPassed
+                    ? <span className="text-game-success">pass</span>
+                    : <span className="text-game-error">fail</span>}
+                {' · '}{agent.judgeScore.filesTouched} files
+                {' · '}+{agent.judgeScore.linesAdded}/-{agent.judgeScore.linesDeleted}
+                {agent.judgeScore.reviewerScore !== null && (
+                  <> · Review {agent.judgeScore.reviewerScore}/10</>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Errors */}
           {state.errorCount > 0 && (
             <div className="flex justify-between text-game-error">
@@ -181,16 +308,12 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
           )}
 
           {/* Permission alert */}
-          {state.pendingPermission && (
-            <div className="bg-orange-500/20 border border-orange-500/50 p-2 rounded">
-              <div className="flex items-center gap-1 text-orange-400">
-                <span>⚠</span>
-                <span className="font-bold">Needs Permission</span>
-              </div>
-              <div className="mt-1 text-orange-300">
-                {state.pendingPermission.title}
-              </div>
-            </div>
+          {state.pendingPermission && agent.status === 'working' && (
+            <PermissionRequest
+              battleId={battleId}
+              agentId={agent.id}
+              permission={state.pendingPermission}
+            />
           )}
         </div>
       )}
@@ -202,6 +325,97 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
         </div>
       )}
 
+      {/* Incidents (timeouts, stalls, loops) */}
+      {expanded && agent.incidents && agent.incidents.length > 0 && (
+        <div className="px-4 py-3 border-t border-game-border text-xs space-y-1">
+          <div className="text-game-muted">Incidents:</div>
+          {agent.incidents.map((incident, i) => (
+            <div key={i} className="flex gap-2">
+              <span className="text-game-muted">
+                {new Date(incident.at).toLocaleTimeString()}
+              </span>
+              <span className="text-orange-400">{incident.kind}</span>
+              <span className="flex-1 text-gray-400 break-all">{incident.message}</span>
+              {incident.respawned && <span className="text-game-muted">respawned</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Permission requests answered by rules */}
+      {expanded && agent.permissionDecisions && agent.permissionDecisions.length > 0 && (
+        <div className="px-4 py-3 border-t border-game-border text-xs space-y-1">
+          <div className="text-game-muted">Auto-answered permissions:</div>
+          {agent.permissionDecisions.map((decision) => (
+            <div key={decision.permissionId} className="flex gap-2">
+              <span className="text-game-muted">
+                {new Date(decision.decidedAt).toLocaleTimeString()}
+              </span>
+              <span className={decision.response === 'reject' ? 'text-game-error' : 'text-game-success'}>
+                {decision.response}
+              </span>
+              <span className="flex-1 text-gray-400 break-all">{decision.title}</span>
+              <span className="text-game-muted">rule {decision.ruleIndex + 1}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Guidance sent to the agent */}
+      {expanded && ((agent.messages && agent.messages.length > 0) || canMessage) && (
+        <div className="px-4 py-3 border-t border-game-border text-xs space-y-2">
+          {agent.messages?.map((message, i) => (
+            <div key={i} className="flex gap-2">
+              <span className="text-game-muted">
+                {new Date(message.sentAt).toLocaleTimeString()}
+              </span>
+              <span className="flex-1 text-gray-300 whitespace-pre-wrap break-words">
+                {message.broadcast && <span className="text-game-muted">[all] </span>}
+                {message.text}
+              </span>
+            </div>
+          ))}
+          {canMessage && (
+            <MessageInput
+              placeholder="Steer this agent..."
+              isPending={sendMessage.isPending}
+              error={sendMessage.error}
+              onSend={(text) => sendMessage.mutateAsync({ battleId, agentId: agent.id, text })}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Patch download and branch push */}
+      {expanded && worktreesAvailable && agent.startedAt && (
+        <div className="px-4 py-3 border-t border-game-border">
+          <AgentExport
+            battleId={battleId}
+            agentId={agent.id}
+            defaultBranchName={`issue-${issueNumber}-unit-${agent.unitIndex + 1}`}
+          />
+        </div>
+      )}
+
+      {/* Full conversation, fetched on demand */}
+      {expanded && agent.startedAt && (
+        <div className="px-4 py-3 border-t border-game-border text-xs space-y-2">
+          <button
+            onClick={() => setShowTranscript(!showTranscript)}
+            className="text-game-muted hover:text-white transition-colors"
+          >
+            {showTranscript ? '▼' : '▶'} Transcript
+          </button>
+          {showTranscript && (
+            <TranscriptViewer
+              battleId={battleId}
+              agentId={agent.id}
+              live={agent.status === 'working'}
+            />
+          )}
+        </div>
+      )}
+
       {/* Error display for failed agents - only show when expanded */}
       {expanded && agent.error && (
         <div className="px-4 py-3 border-t border-game-border text-xs text-game-error">
@@ -210,6 +424,41 @@ export function AgentCard({ agent, isWinner, battleStatus }: AgentCardProps) {
             : (agent.error as Error)?.message || 'An error occurred'}
         </div>
       )}
+
+      {/* Single-agent actions */}
+      {expanded && (canStop || canRetry || canPromote) && (
+        <div className="px-4 py-2 border-t border-game-border flex items-center gap-2 text-xs">
+          <span className="flex-1 text-game-error truncate">{actionError?.message}</span>
+          {canStop && (
+            <button
+              onClick={() => cancelAgent.mutate({ battleId, agentId: agent.id })}
+              disabled={cancelAgent.isPending}
+              className="px-2 py-1 text-game-error border border-game-error rounded hover:bg-game-error/20 transition-colors disabled:opacity-50"
+            >
+              Stop
+            </button>
+          )}
+          {canRetry && (
+            <button
+              onClick={() => retryAgent.mutate({ battleId, agentId: agent.id })}
+              disabled={retryAgent.isPending}
+              className="px-2 py-1 text-game-warning border border-game-warning rounded hover:bg-game-warning/20 transition-colors disabled:opacity-50"
+            >
+              Retry
+            </button>
+          )}
+          {canPromote && (
+            <button
+              onClick={() => promoteAgent.mutate({ battleId, agentId: agent.id })}
+              disabled={promoteAgent.isPending}
+              title="Push this candidate and open its PR"
+              className="px-2 py-1 text-game-success border border-game-success rounded hover:bg-game-success/20 transition-colors disabled:opacity-50"
+            >
+              {promoteAgent.isPending ? 'Opening PR...' : 'Promote'}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
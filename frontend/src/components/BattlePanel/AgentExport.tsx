@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { usePushAgentBranch } from '../../hooks/useBattles';
+
+interface AgentExportProps {
+  battleId: string;
+  agentId: string;
+  defaultBranchName: string;
+}
+
+// Take an agent's work out of the battle without opening a PR
+export function AgentExport({ battleId, agentId, defaultBranchName }: AgentExportProps) {
+  const [branchName, setBranchName] = useState(defaultBranchName);
+  const pushBranch = usePushAgentBranch();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = branchName.trim();
+    if (!trimmed) return;
+    pushBranch.mutate({ battleId, agentId, branchName: trimmed });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1 text-xs">
+      <div className="flex gap-2">
+        <a
+          href={`/api/battles/${battleId}/agents/${agentId}/patch`}
+          download
+          className="px-2 py-1 text-game-accent border border-game-accent rounded hover:bg-game-accent/20 transition-colors"
+        >
+          Patch
+        </a>
+        {/* The server pushes under swarm/ and never to an existing branch */}
+        <span className="py-1 text-game-muted font-mono">swarm/</span>
+        <input
+          type="text"
+          value={branchName}
+          onChange={(e) => setBranchName(e.target.value)}
+          placeholder="Branch name"
+          className="flex-1 px-2 py-1 bg-game-panel border border-game-border rounded text-white placeholder:text-gray-500 focus:outline-none focus:border-game-accent font-mono"
+        />
+        <button
+          type="submit"
+          disabled={pushBranch.isPending || !branchName.trim()}
+          className="px-2 py-1 text-game-accent border border-game-accent rounded hover:bg-game-accent/20 transition-colors disabled:opacity-50"
+        >
+          {pushBranch.isPending ? 'Pushing...' : 'Push branch'}
+        </button>
+      </div>
+      {pushBranch.data && (
+        <span className="text-game-success">
+          Pushed {pushBranch.data.commit.slice(0, 7)} as {pushBranch.data.branchName}
+        </span>
+      )}
+      {pushBranch.error && <span className="text-game-error">{pushBranch.error.message}</span>}
+    </form>
+  );
+}
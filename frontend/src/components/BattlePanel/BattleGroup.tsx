@@ -1,32 +1,80 @@
 import { useState } from 'react';
 import type { Battle } from '../../types';
+import { isBattleActive, UNIT_PERSONALITIES } from '../../types';
 import { AgentCard } from './AgentCard';
-import { useCancelBattle, useDismissBattle } from '../../hooks/useBattles';
+import {
+  useCancelBattle,
+  useDismissBattle,
+  useReorderQueue,
+  useResumeBattle,
+  useBroadcastMessage,
+} from '../../hooks/useBattles';
+import { MessageInput } from './MessageInput';
+import { DiffCompare } from './DiffCompare';
 
 interface BattleGroupProps {
   battle: Battle;
+  // Current queue order (battle IDs), only passed for queued battles
+  queue?: string[];
 }
 
 const STATUS_CONFIG: Record<string, { label: string; color: string; bgColor: string }> = {
+  queued: { label: 'QUEUED', color: 'text-indigo-300', bgColor: 'bg-indigo-400/20' },
   pending: { label: 'PENDING', color: 'text-game-muted', bgColor: 'bg-game-muted/20' },
   fighting: { label: 'FIGHTING', color: 'text-game-warning', bgColor: 'bg-game-warning/20' },
+  judging: { label: 'JUDGING', color: 'text-cyan-300', bgColor: 'bg-cyan-400/20' },
+  awaiting_review: { label: 'REVIEW', color: 'text-fuchsia-300', bgColor: 'bg-fuchsia-400/20' },
   victory: { label: 'VICTORY', color: 'text-game-success', bgColor: 'bg-game-success/20' },
   defeat: { label: 'DEFEAT', color: 'text-game-error', bgColor: 'bg-game-error/20' },
+  interrupted: { label: 'INTERRUPTED', color: 'text-orange-400', bgColor: 'bg-orange-500/20' },
 };
 
-export function BattleGroup({ battle }: BattleGroupProps) {
+export function BattleGroup({ battle, queue }: BattleGroupProps) {
   const [collapsed, setCollapsed] = useState(false);
+  const [comparing, setComparing] = useState(false);
   const cancelBattle = useCancelBattle();
+  const resumeBattle = useResumeBattle();
+  const broadcastMessage = useBroadcastMessage();
+  const reorderQueue = useReorderQueue();
   const { dismiss } = useDismissBattle();
 
   const statusConfig = STATUS_CONFIG[battle.status] ?? STATUS_CONFIG.pending;
-  const isActive = battle.status === 'pending' || battle.status === 'fighting';
-  const isFinished = battle.status === 'victory' || battle.status === 'defeat';
+  const isQueued = battle.status === 'queued';
+  const isActive = isBattleActive(battle.status);
+  const queueIndex = queue?.indexOf(battle.id) ?? -1;
+
+  // Swap this battle with its neighbour in the queue
+  const moveInQueue = (delta: number) => {
+    if (!queue || queueIndex === -1) return;
+    const target = queueIndex + delta;
+    if (target < 0 || target >= queue.length) return;
+    const reordered = [...queue];
+    [reordered[queueIndex], reordered[target]] = [reordered[target], reordered[queueIndex]];
+    reorderQueue.mutate(reordered);
+  };
+  const isFinished =
+    battle.status === 'victory' || battle.status === 'defeat' || battle.status === 'interrupted';
 
   // Count agents by status
   const workingCount = battle.agents.filter(a => a.status === 'working').length;
+  const verifyingCount = battle.agents.filter(a => a.status === 'verifying').length;
   const successCount = battle.agents.filter(a => a.status === 'success').length;
   const failedCount = battle.agents.filter(a => a.status === 'failed').length;
+  const pricedAgents = battle.agents.filter(
+    a => a.costUsd !== undefined || a.spentCostUsd !== undefined
+  );
+  const totalCost = pricedAgents.reduce(
+    (sum, a) => sum + (a.costUsd ?? 0) + (a.spentCostUsd ?? 0),
+    0
+  );
+  const winner = battle.agents.find(a => a.id === battle.winningAgentId);
+  const winningPersonality = winner?.unitType ? UNIT_PERSONALITIES[winner.unitType] : null;
+  const canCompare = battle.agents.filter(a => a.startedAt).length >= 2;
+  // Running battles, interrupted ones that can resume, and finished ones within retention
+  const worktreesAvailable =
+    (isActive && !isQueued) ||
+    !!battle.resumable ||
+    (!!battle.worktreesExpireAt && new Date(battle.worktreesExpireAt).getTime() > Date.now());
 
   return (
     <div className="border border-game-border rounded-lg bg-game-panel/50 overflow-hidden">
@@ -52,6 +100,28 @@ export function BattleGroup({ battle }: BattleGroupProps) {
             : battle.issueTitle}
         </span>
 
+        {/* Started from GitHub */}
+        {battle.trigger && (
+          <span
+            className="text-[10px] px-1.5 py-0.5 rounded text-sky-300 border border-sky-300/50"
+            title={`Started by @${battle.trigger.sender} via ${battle.trigger.source === 'label' ? 'issue label' : '/swarm comment'}`}
+          >
+            AUTO
+          </span>
+        )}
+
+        {/* Mode badge */}
+        {battle.mode === 'judge' && (
+          <span className="text-[10px] px-1.5 py-0.5 rounded text-cyan-300 border border-cyan-300/50" title="Judge mode: best-scored candidate wins">
+            JUDGE
+          </span>
+        )}
+        {battle.mode === 'review' && (
+          <span className="text-[10px] px-1.5 py-0.5 rounded text-fuchsia-300 border border-fuchsia-300/50" title="Review mode: you pick the winning candidate">
+            REVIEW
+          </span>
+        )}
+
         {/* Status badge */}
         <span className={`text-xs px-2 py-0.5 rounded ${statusConfig.color} ${statusConfig.bgColor}`}>
           {statusConfig.label}
@@ -63,25 +133,84 @@ export function BattleGroup({ battle }: BattleGroupProps) {
         <div className="px-4 py-2 border-t border-game-border text-xs text-game-muted flex gap-4">
           <span>{battle.agents.length} agents</span>
           {workingCount > 0 && <span className="text-game-warning">{workingCount} working</span>}
+          {verifyingCount > 0 && <span className="text-cyan-300">{verifyingCount} verifying</span>}
           {successCount > 0 && <span className="text-game-success">{successCount} done</span>}
           {failedCount > 0 && <span className="text-game-error">{failedCount} failed</span>}
+          {pricedAgents.length > 0 && <span>${totalCost.toFixed(2)}</span>}
+          {winningPersonality && (
+            <span className="text-game-success">
+              Won by {winningPersonality.name} ({winningPersonality.approach})
+              {winner?.model && <> on {winner.model.modelID}</>}
+            </span>
+          )}
         </div>
       )}
 
       {/* Expanded content */}
       {!collapsed && (
         <div className="border-t border-game-border">
-          {/* Agent list */}
-          <div className="p-4 space-y-4">
-            {battle.agents.map((agent) => (
-              <AgentCard
-                key={agent.id}
-                agent={agent}
-                isWinner={agent.id === battle.winningAgentId}
-                battleStatus={battle.status}
+          {/* Queue position */}
+          {isQueued && (
+            <div className="px-4 py-3 flex items-center gap-3 text-xs text-game-muted">
+              <span className="flex-1">
+                Waiting for a free slot · {battle.unitCount} units
+                {queueIndex !== -1 && <> · #{queueIndex + 1} in queue</>}
+              </span>
+              <button
+                onClick={() => moveInQueue(-1)}
+                disabled={queueIndex <= 0 || reorderQueue.isPending}
+                title="Move up"
+                className="px-2 py-1 border border-game-border rounded hover:bg-game-panel transition-colors disabled:opacity-50"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveInQueue(1)}
+                disabled={!queue || queueIndex >= queue.length - 1 || reorderQueue.isPending}
+                title="Move down"
+                className="px-2 py-1 border border-game-border rounded hover:bg-game-panel transition-colors disabled:opacity-50"
+              >
+                ↓
+              </button>
+            </div>
+          )}
+
+          {/* Broadcast a hint to every running agent */}
+          {battle.status === 'fighting' && workingCount > 0 && (
+            <div className="px-4 pt-3">
+              <MessageInput
+                placeholder="Hint to all agents..."
+                isPending={broadcastMessage.isPending}
+                error={broadcastMessage.error}
+                onSend={(text) => broadcastMessage.mutateAsync({ battleId: battle.id, text })}
               />
-            ))}
-          </div>
+            </div>
+          )}
+
+          {battle.status === 'awaiting_review' && (
+            <div className="px-4 pt-3 text-xs text-fuchsia-300">
+              {successCount} candidate{successCount === 1 ? '' : 's'} ready. Compare them and
+              promote one to open its PR.
+            </div>
+          )}
+
+          {/* Agent list */}
+          {battle.agents.length > 0 && (
+            <div className="p-4 space-y-4">
+              {battle.agents.map((agent) => (
+                <AgentCard
+                  key={agent.id}
+                  battleId={battle.id}
+                  agent={agent}
+                  isWinner={agent.id === battle.winningAgentId}
+                  battleStatus={battle.status}
+                  battleMode={battle.mode}
+                  issueNumber={battle.issueNumber}
+                  worktreesAvailable={worktreesAvailable}
+                />
+              ))}
+            </div>
+          )}
 
           {/* Actions footer */}
           <div className="px-4 py-3 border-t border-game-border flex items-center gap-3 text-xs">
@@ -91,6 +220,24 @@ export function BattleGroup({ battle }: BattleGroupProps) {
               {battle.completedAt && (
                 <> · Ended {new Date(battle.completedAt).toLocaleTimeString()}</>
               )}
+              {winningPersonality && (
+                <>
+                  {' '}· Won by {winningPersonality.name} ({winningPersonality.approach})
+                  {winner?.model && <> on {winner.model.providerID}/{winner.model.modelID}</>}
+                </>
+              )}
+              {pricedAgents.length > 0 && (
+                <>
+                  {' '}· Cost ${totalCost.toFixed(2)}
+                  {battle.battleBudget?.maxCostUsd && <> / ${battle.battleBudget.maxCostUsd.toFixed(2)}</>}
+                </>
+              )}
+              {battle.deadlineAt && !battle.completedAt && (
+                <> · Deadline {new Date(battle.deadlineAt).toLocaleTimeString()}</>
+              )}
+              {battle.worktreesExpireAt && worktreesAvailable && (
+                <> · Worktrees kept until {new Date(battle.worktreesExpireAt).toLocaleString()}</>
+              )}
             </span>
 
             {/* Action buttons */}
@@ -100,7 +247,27 @@ export function BattleGroup({ battle }: BattleGroupProps) {
                 disabled={cancelBattle.isPending}
                 className="px-2 py-1 text-game-error border border-game-error rounded hover:bg-game-error/20 transition-colors disabled:opacity-50"
               >
-                Cancel
+                {isQueued ? 'Dequeue' : 'Cancel'}
+              </button>
+            )}
+
+            {battle.resumable && (
+              <button
+                onClick={() => resumeBattle.mutate(battle.id)}
+                disabled={resumeBattle.isPending}
+                title={resumeBattle.error?.message}
+                className="px-2 py-1 text-orange-400 border border-orange-400 rounded hover:bg-orange-500/20 transition-colors disabled:opacity-50"
+              >
+                Resume
+              </button>
+            )}
+
+            {canCompare && (
+              <button
+                onClick={() => setComparing(true)}
+                className="px-2 py-1 text-game-accent border border-game-accent rounded hover:bg-game-accent/20 transition-colors"
+              >
+                Compare
               </button>
             )}
 
@@ -126,6 +293,8 @@ export function BattleGroup({ battle }: BattleGroupProps) {
           </div>
         </div>
       )}
+
+      {comparing && <DiffCompare battle={battle} onClose={() => setComparing(false)} />}
     </div>
   );
 }
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import type { AgentDiff, AgentInstance, Battle } from '../../types';
+import { UNIT_PERSONALITIES } from '../../types';
+import { useAgentDiffs } from '../../hooks/useBattles';
+import { parseUnifiedDiff } from '../../utils/diff';
+import type { DiffFile, DiffLine } from '../../utils/diff';
+import { getLanguage, highlightLine } from '../../utils/highlight';
+
+// =============================================================================
+// DIFF COMPARE
+// =============================================================================
+// Modal showing several candidates' diffs side by side, one column each.
+
+interface DiffCompareProps {
+  battle: Battle;
+  onClose: () => void;
+}
+
+// Columns get too narrow to read beyond this
+const MAX_COLUMNS = 4;
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  add: 'bg-game-success/15',
+  del: 'bg-game-error/15',
+  context: '',
+  hunk: 'bg-game-accent/10 text-game-muted',
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  add: '+',
+  del: '-',
+  context: ' ',
+  hunk: '',
+};
+
+function agentLabel(agent: AgentInstance): string {
+  const personality = agent.unitType ? UNIT_PERSONALITIES[agent.unitType] : null;
+  return `Unit ${agent.unitIndex + 1}${personality ? ` · ${personality.name}` : ''}`;
+}
+
+// Candidates worth comparing first: finished ones, then anything that made changes
+function defaultSelection(agents: AgentInstance[]): string[] {
+  const ran = agents.filter((a) => a.startedAt);
+  const ranked = [
+    ...ran.filter((a) => a.status === 'success'),
+    ...ran.filter((a) => a.status !== 'success' && (a.detailedState?.filesModified.length ?? 0) > 0),
+    ...ran.filter((a) => a.status !== 'success' && !(a.detailedState?.filesModified.length ?? 0)),
+  ];
+  return ranked.slice(0, 2).map((a) => a.id);
+}
+
+// Refetches of an unchanged diff keep the same object, so parse each one once
+const parsedDiffs = new WeakMap<AgentDiff, DiffFile[]>();
+
+function parseDiff(diff: AgentDiff): DiffFile[] {
+  let files = parsedDiffs.get(diff);
+  if (!files) {
+    files = parseUnifiedDiff(diff.diff);
+    parsedDiffs.set(diff, files);
+  }
+  return files;
+}
+
+function FileDiff({ file }: { file: DiffFile }) {
+  const language = getLanguage(file.path);
+
+  return (
+    <div className="border border-game-border rounded overflow-hidden">
+      <div className="px-2 py-1 bg-game-panel flex gap-2 text-game-muted">
+        <span className="flex-1 truncate text-gray-300">{file.path}</span>
+        {file.status !== 'modified' && <span>{file.status}</span>}
+        <span className="text-game-success">+{file.additions}</span>
+        <span className="text-game-error">-{file.deletions}</span>
+      </div>
+      {file.binary ? (
+        <div className="px-2 py-1 text-game-muted">Binary file</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse font-mono">
+            <tbody>
+              {file.lines.map((line, i) => (
+                <tr key={i} className={LINE_STYLES[line.type]}>
+                  <td className="px-1 text-right text-game-muted select-none w-8">{line.oldLine}</td>
+                  <td className="px-1 text-right text-game-muted select-none w-8">{line.newLine}</td>
+                  <td className="px-1 whitespace-pre">
+                    {line.type === 'hunk' ? (
+                      line.text
+                    ) : (
+                      <>
+                        <span className="text-game-muted select-none">{LINE_PREFIX[line.type]}</span>
+                        {highlightLine(line.text, language).map((token, j) => (
+                          <span key={j} className={token.className}>{token.text}</span>
+                        ))}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DiffCompare({ battle, onClose }: DiffCompareProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => defaultSelection(battle.agents));
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const candidates = battle.agents.filter((a) => a.startedAt);
+  const selectedAgents = candidates.filter((a) => selectedIds.includes(a.id));
+  const diffs = useAgentDiffs(
+    battle.id,
+    selectedAgents.map((a) => a.id),
+    battle.status === 'fighting'
+  );
+
+  const parsed = diffs.map((query) => (query.data ? parseDiff(query.data) : []));
+
+  // Every file touched by at least one selected candidate
+  const allPaths = [...new Set(parsed.flatMap((files) => files.map((f) => f.path)))].sort();
+
+  const toggleAgent = (agentId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(agentId)
+        ? ids.filter((id) => id !== agentId)
+        : ids.length < MAX_COLUMNS ? [...ids, agentId] : ids
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex justify-center items-center z-[1000]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-game-bg border-2 border-game-border rounded-lg w-[95vw] h-[90vh] flex flex-col shadow-xl font-mono text-xs"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header with candidate toggles */}
+        <div className="px-4 py-3 border-b border-game-border flex items-center gap-2 flex-wrap">
+          <h2 className="text-white text-sm m-0 mr-2">
+            Compare candidates · #{battle.issueNumber}
+          </h2>
+          {candidates.map((agent) => {
+            const selected = selectedIds.includes(agent.id);
+            return (
+              <button
+                key={agent.id}
+                onClick={() => toggleAgent(agent.id)}
+                disabled={!selected && selectedIds.length >= MAX_COLUMNS}
+                className={`px-2 py-1 border rounded transition-colors disabled:opacity-50 ${
+                  selected
+                    ? 'text-game-accent border-game-accent bg-game-accent/20'
+                    : 'text-game-muted border-game-border hover:bg-game-panel'
+                }`}
+              >
+                {agentLabel(agent)}
+                {agent.id === battle.winningAgentId && ' ★'}
+              </button>
+            );
+          })}
+          <button
+            onClick={onClose}
+            className="ml-auto px-2 py-1 text-game-muted border border-game-border rounded hover:bg-game-panel transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Per-file navigation */}
+          <div className="w-64 border-r border-game-border overflow-y-auto py-2">
+            <button
+              onClick={() => setSelectedFile(null)}
+              className={`w-full px-3 py-1 text-left transition-colors ${
+                selectedFile === null ? 'text-white bg-game-panel' : 'text-game-muted hover:bg-game-panel/50'
+              }`}
+            >
+              All files ({allPaths.length})
+            </button>
+            {allPaths.map((path) => (
+              <button
+                key={path}
+                onClick={() => setSelectedFile(path)}
+                title={path}
+                className={`w-full px-3 py-1 text-left transition-colors ${
+                  selectedFile === path ? 'text-white bg-game-panel' : 'text-gray-400 hover:bg-game-panel/50'
+                }`}
+              >
+                <div className="truncate">{path.split('/').pop()}</div>
+                {/* Which candidates touched this file, and how much */}
+                <div className="flex gap-2 text-[10px]">
+                  {parsed.map((files, i) => {
+                    const file = files.find((f) => f.path === path);
+                    return (
+                      <span key={selectedAgents[i]?.id ?? i} className={file ? '' : 'text-game-muted'}>
+                        {file ? (
+                          <>
+                            <span className="text-game-success">+{file.additions}</span>
+                            <span className="text-game-error">-{file.deletions}</span>
+                          </>
+                        ) : (
+                          '·'
+                        )}
+                      </span>
+                    );
+                  })}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* One column per candidate */}
+          {selectedAgents.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-game-muted">
+              Select candidates to compare
+            </div>
+          ) : (
+            <div
+              className="flex-1 grid gap-px bg-game-border min-w-0"
+              style={{ gridTemplateColumns: `repeat(${selectedAgents.length}, minmax(0, 1fr))` }}
+            >
+              {selectedAgents.map((agent, i) => {
+                const query = diffs[i];
+                const files = parsed[i] ?? [];
+                const shown = selectedFile ? files.filter((f) => f.path === selectedFile) : files;
+                const additions = files.reduce((sum, f) => sum + f.additions, 0);
+                const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+
+                return (
+                  <div key={agent.id} className="bg-game-bg flex flex-col min-h-0">
+                    <div className="px-3 py-2 border-b border-game-border flex gap-2">
+                      <span className="flex-1 truncate text-white">
+                        {agentLabel(agent)} <span className="text-game-muted">{agent.status}</span>
+                      </span>
+                      <span className="text-game-muted">{files.length} files</span>
+                      <span className="text-game-success">+{additions}</span>
+                      <span className="text-game-error">-{deletions}</span>
+                      {query?.data && !query.data.live && (
+                        <span className="text-game-muted" title="Worktree was cleaned up">snapshot</span>
+                      )}
+                    </div>
+                    <div className="flex-1 overflow-auto p-2 space-y-2">
+                      {query?.isPending && <div className="text-game-muted">Loading diff...</div>}
+                      {query?.error && <div className="text-game-error">{query.error.message}</div>}
+                      {query?.data && shown.length === 0 && (
+                        <div className="text-game-muted">
+                          {selectedFile ? 'File not changed' : 'No changes'}
+                        </div>
+                      )}
+                      {shown.map((file) => (
+                        <FileDiff key={file.path} file={file} />
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
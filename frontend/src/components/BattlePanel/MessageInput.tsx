@@ -0,0 +1,42 @@
+import { useState } from 'react';
+
+interface MessageInputProps {
+  placeholder: string;
+  isPending: boolean;
+  error: Error | null;
+  // Resolves once the message was delivered, so the input can be cleared
+  onSend: (text: string) => Promise<unknown>;
+}
+
+export function MessageInput({ placeholder, isPending, error, onSend }: MessageInputProps) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSend(trimmed).then(() => setText(''), () => {});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1 text-xs">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={placeholder}
+          className="flex-1 px-2 py-1 bg-game-panel border border-game-border rounded text-white placeholder:text-gray-500 focus:outline-none focus:border-game-accent"
+        />
+        <button
+          type="submit"
+          disabled={isPending || !text.trim()}
+          className="px-2 py-1 text-game-accent border border-game-accent rounded hover:bg-game-accent/20 transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+      </div>
+      {error && <span className="text-game-error">{error.message}</span>}
+    </form>
+  );
+}
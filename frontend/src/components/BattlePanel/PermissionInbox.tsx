@@ -0,0 +1,34 @@
+import type { Battle } from '../../types';
+import { PermissionRequest } from './PermissionRequest';
+
+interface PermissionInboxProps {
+  battles: Battle[];
+}
+
+// Every permission request agents are currently blocked on, across all battles
+export function PermissionInbox({ battles }: PermissionInboxProps) {
+  const requests = battles.flatMap((battle) =>
+    battle.agents.flatMap((agent) => {
+      const permission = agent.detailedState?.pendingPermission;
+      return agent.status === 'working' && permission ? [{ battle, agent, permission }] : [];
+    })
+  );
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-orange-400 uppercase tracking-wide">
+        Needs input ({requests.length})
+      </div>
+      {requests.map(({ battle, agent, permission }) => (
+        <div key={permission.id} className="space-y-1">
+          <div className="text-xs text-game-muted">
+            #{battle.issueNumber} · Unit {agent.unitIndex + 1}
+          </div>
+          <PermissionRequest battleId={battle.id} agentId={agent.id} permission={permission} />
+        </div>
+      ))}
+    </div>
+  );
+}
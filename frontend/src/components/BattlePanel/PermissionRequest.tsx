@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { PendingPermission } from '../../types';
+import { useRespondToPermission } from '../../hooks/useBattles';
+import type { PermissionResponse } from '../../hooks/useBattles';
+
+interface PermissionRequestProps {
+  battleId: string;
+  agentId: string;
+  permission: PendingPermission;
+}
+
+const RESPONSES: { response: PermissionResponse; label: string; className: string }[] = [
+  { response: 'once', label: 'Once', className: 'text-game-success border-game-success hover:bg-game-success/20' },
+  { response: 'always', label: 'Always', className: 'text-game-accent border-game-accent hover:bg-game-accent/20' },
+  { response: 'reject', label: 'Reject', className: 'text-game-error border-game-error hover:bg-game-error/20' },
+];
+
+export function PermissionRequest({ battleId, agentId, permission }: PermissionRequestProps) {
+  const [showMetadata, setShowMetadata] = useState(false);
+  const respond = useRespondToPermission();
+
+  const patterns = permission.pattern === undefined
+    ? []
+    : Array.isArray(permission.pattern) ? permission.pattern : [permission.pattern];
+  const hasMetadata = Object.keys(permission.metadata ?? {}).length > 0;
+
+  return (
+    <div className="bg-orange-500/20 border border-orange-500/50 p-2 rounded text-xs space-y-1">
+      <div className="flex items-center gap-1 text-orange-400">
+        <span>⚠</span>
+        <span className="font-bold">Needs Permission</span>
+        <span className="ml-auto text-orange-300/70">{permission.type}</span>
+      </div>
+      <div className="text-orange-300 break-words">{permission.title}</div>
+
+      {patterns.length > 0 && (
+        <div className="font-mono text-gray-300 break-all">
+          {patterns.map((pattern) => (
+            <div key={pattern}>{pattern}</div>
+          ))}
+        </div>
+      )}
+
+      {hasMetadata && (
+        <div>
+          <button
+            onClick={() => setShowMetadata(!showMetadata)}
+            className="text-game-muted hover:text-white transition-colors"
+          >
+            {showMetadata ? '▼' : '▶'} Details
+          </button>
+          {showMetadata && (
+            <pre className="mt-1 p-2 max-h-40 overflow-auto bg-game-bg/50 text-gray-300 rounded whitespace-pre-wrap break-all">
+              {JSON.stringify(permission.metadata, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2 pt-1">
+        {RESPONSES.map(({ response, label, className }) => (
+          <button
+            key={response}
+            onClick={() =>
+              respond.mutate({ battleId, agentId, permissionId: permission.id, response })
+            }
+            disabled={respond.isPending}
+            className={`px-2 py-1 border rounded transition-colors disabled:opacity-50 ${className}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {respond.error && <div className="text-game-error">{respond.error.message}</div>}
+    </div>
+  );
+}
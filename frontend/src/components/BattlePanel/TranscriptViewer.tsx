@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { TranscriptEntry } from '../../types';
+import { useAgentTranscript } from '../../hooks/useBattles';
+
+interface TranscriptViewerProps {
+  battleId: string;
+  agentId: string;
+  // Keep polling for new entries while the agent runs
+  live: boolean;
+}
+
+const TOOL_STATUS_COLORS: Record<string, string> = {
+  pending: 'text-game-muted',
+  running: 'text-game-accent',
+  completed: 'text-game-success',
+  error: 'text-game-error',
+};
+
+function ToolCall({ entry }: { entry: TranscriptEntry }) {
+  const [open, setOpen] = useState(false);
+  const hasInput = entry.input && Object.keys(entry.input).length > 0;
+
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex gap-2 text-left hover:text-white transition-colors"
+      >
+        <span className="text-game-muted">{open ? '▼' : '▶'}</span>
+        <span className="text-game-accent">{entry.tool}</span>
+        <span className="flex-1 truncate text-gray-400">{entry.title}</span>
+        <span className={TOOL_STATUS_COLORS[entry.status ?? ''] ?? 'text-game-muted'}>
+          {entry.status}
+        </span>
+      </button>
+      {open && (
+        <div className="mt-1 ml-4 space-y-1">
+          {hasInput && (
+            <pre className="p-2 max-h-40 overflow-auto bg-game-bg/50 text-gray-300 rounded whitespace-pre-wrap break-all">
+              {JSON.stringify(entry.input, null, 2)}
+            </pre>
+          )}
+          {entry.output && (
+            <pre className="p-2 max-h-60 overflow-auto bg-game-bg/50 text-gray-400 rounded whitespace-pre-wrap break-all">
+              {entry.output}
+            </pre>
+          )}
+          {entry.error && (
+            <pre className="p-2 max-h-40 overflow-auto bg-game-error/10 text-game-error rounded whitespace-pre-wrap break-all">
+              {entry.error}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TranscriptLine({ entry }: { entry: TranscriptEntry }) {
+  switch (entry.kind) {
+    case 'prompt':
+      return (
+        <div className="p-2 max-h-40 overflow-auto border-l-2 border-game-accent text-gray-300 whitespace-pre-wrap break-words">
+          {entry.text}
+        </div>
+      );
+    case 'reasoning':
+      return (
+        <div className="italic text-game-muted whitespace-pre-wrap break-words">{entry.text}</div>
+      );
+    case 'tool':
+      return <ToolCall entry={entry} />;
+    default:
+      return <div className="text-gray-300 whitespace-pre-wrap break-words">{entry.text}</div>;
+  }
+}
+
+// Messages, reasoning and tool calls of one agent, oldest first
+export function TranscriptViewer({ battleId, agentId, live }: TranscriptViewerProps) {
+  const transcript = useAgentTranscript(battleId, agentId, { enabled: true, live });
+  const entries = transcript.data?.pages.flatMap((page) => page.entries) ?? [];
+  const total = transcript.data?.pages[transcript.data.pages.length - 1]?.total ?? 0;
+
+  if (transcript.isPending) {
+    return <div className="text-game-muted">Loading transcript...</div>;
+  }
+  if (transcript.error) {
+    return <div className="text-game-error">{transcript.error.message}</div>;
+  }
+  if (entries.length === 0) {
+    return <div className="text-game-muted">Nothing recorded yet</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => (
+        <TranscriptLine key={entry.id} entry={entry} />
+      ))}
+      {transcript.hasNextPage && (
+        <button
+          onClick={() => transcript.fetchNextPage()}
+          disabled={transcript.isFetchingNextPage}
+          className="text-game-accent hover:text-white transition-colors disabled:opacity-50"
+        >
+          Load more ({entries.length} / {total})
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useBattles, useDismissBattle } from '../../hooks/useBattles';
 import { BattleGroup } from './BattleGroup';
+import { PermissionInbox } from './PermissionInbox';
+import { isBattleActive } from '../../types';
 
 export function BattlePanel() {
   const { data: battles = [], isLoading } = useBattles();
@@ -7,17 +9,21 @@ export function BattlePanel() {
 
   // Sort battles: active first, then by start time (newest first)
   const sortedBattles = [...battles].sort((a, b) => {
-    const aActive = a.status === 'pending' || a.status === 'fighting';
-    const bActive = b.status === 'pending' || b.status === 'fighting';
+    const aActive = isBattleActive(a.status);
+    const bActive = isBattleActive(b.status);
     if (aActive !== bActive) return aActive ? -1 : 1;
     return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
   });
 
   const activeBattles = sortedBattles.filter(
-    b => b.status === 'pending' || b.status === 'fighting'
+    b => isBattleActive(b.status) && b.status !== 'queued'
   );
+  const queuedBattles = battles
+    .filter(b => b.status === 'queued')
+    .sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0));
+  const queue = queuedBattles.map(b => b.id);
   const finishedBattles = sortedBattles.filter(
-    b => b.status === 'victory' || b.status === 'defeat'
+    b => b.status === 'victory' || b.status === 'defeat' || b.status === 'interrupted'
   );
 
   return (
@@ -53,6 +59,9 @@ export function BattlePanel() {
           </div>
         )}
 
+        {/* Permission requests blocking agents */}
+        <PermissionInbox battles={activeBattles} />
+
         {/* Active battles section */}
         {activeBattles.length > 0 && (
           <div className="space-y-4">
@@ -65,6 +74,18 @@ export function BattlePanel() {
           </div>
         )}
 
+        {/* Queued battles section */}
+        {queuedBattles.length > 0 && (
+          <div className="space-y-4">
+            <div className="text-xs text-game-muted uppercase tracking-wide">
+              Queued ({queuedBattles.length})
+            </div>
+            {queuedBattles.map((battle) => (
+              <BattleGroup key={battle.id} battle={battle} queue={queue} />
+            ))}
+          </div>
+        )}
+
         {/* Finished battles section */}
         {finishedBattles.length > 0 && (
           <div className="space-y-4">
@@ -96,3 +117,4 @@ export function BattlePanel() {
 // Re-export sub-components
 export { AgentCard } from './AgentCard';
 export { BattleGroup } from './BattleGroup';
+export { PermissionInbox } from './PermissionInbox';
@@ -1,10 +1,20 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import Phaser from 'phaser';
 import { createGameConfig } from '../game/config';
-import { useStartBattle, useCancelBattle, useBattles } from '../hooks/useBattles';
+import {
+  useStartBattle,
+  useCancelBattle,
+  useBattles,
+  useReinforceBattle,
+  useAutopilotStats,
+} from '../hooks/useBattles';
 import { useIssues } from '../hooks/useGitHub';
 import { ConfirmDialog } from './ConfirmDialog';
+import { useGameStore } from '../stores/gameStore';
+import { isBattleActive } from '../types';
 import type { ArenaScene, GameCallbacks } from '../game/scenes/ArenaScene';
+import type { UnitType } from '../types';
 
 // =============================================================================
 // GAME CANVAS
@@ -17,12 +27,25 @@ import type { ArenaScene, GameCallbacks } from '../game/scenes/ArenaScene';
 export function GameCanvas() {
   const containerRef = useRef<HTMLDivElement>(null);
   const gameRef = useRef<Phaser.Game | null>(null);
+  const queryClient = useQueryClient();
+  // Issues refetched because a battle arrived for them, so each is asked for once
+  const requestedIssues = useRef<Set<number>>(new Set());
 
   // Data from React Query (single source of truth)
   const { data: issues = [] } = useIssues();
   const { data: battles = [] } = useBattles();
   const startBattle = useStartBattle();
+  const reinforceBattle = useReinforceBattle();
   const cancelBattle = useCancelBattle();
+  const battleMode = useGameStore((state) => state.battleMode);
+  const modelsByUnitType = useGameStore((state) => state.modelsByUnitType);
+  const autopilot = useGameStore((state) => state.autopilot);
+  const { data: autopilotStats } = useAutopilotStats(autopilot.enabled);
+  // Latest autopilot values, applied once the scene is ready
+  const autopilotRef = useRef(autopilot);
+  const autopilotStatsRef = useRef(autopilotStats);
+  autopilotRef.current = autopilot;
+  autopilotStatsRef.current = autopilotStats;
 
   // Cancel confirmation dialog state
   const [pendingCancel, setPendingCancel] = useState<{
@@ -74,17 +97,24 @@ export function GameCanvas() {
     if (!game) return;
 
     const callbacks: GameCallbacks = {
-      onAttackIssue: (issueNumber: number, unitCount: number) => {
+      onAttackIssue: (issueNumber: number, unitCount: number, unitTypes: UnitType[]) => {
         // Check for existing active battle
         const existing = battles.find(
-          (b) =>
-            b.issueNumber === issueNumber &&
-            (b.status === 'pending' || b.status === 'fighting')
+          (b) => b.issueNumber === issueNumber && isBattleActive(b.status)
         );
         if (!existing) {
-          startBattle.mutate({ issueNumber, unitCount });
+          startBattle.mutate({
+            issueNumber,
+            unitCount,
+            unitTypes,
+            modelsByUnitType,
+            mode: battleMode,
+          });
         }
       },
+      onReinforceBattle: (battleId: string, unitCount: number, unitTypes: UnitType[]) => {
+        reinforceBattle.mutate({ battleId, unitCount, unitTypes, modelsByUnitType });
+      },
       onRequestCancelBattle: (battleId: string) => {
         return new Promise<boolean>((resolve) => {
           setPendingCancel({ battleId, resolve });
@@ -96,6 +126,11 @@ export function GameCanvas() {
       const scene = getScene();
       if (scene?.scene.isActive()) {
         scene.setCallbacks(callbacks);
+        // The sync effects below skip a scene that isn't active yet
+        scene.setAutopilot(autopilotRef.current);
+        if (autopilotStatsRef.current) {
+          scene.setAutopilotStats(autopilotStatsRef.current);
+        }
       }
     };
 
@@ -120,7 +155,7 @@ export function GameCanvas() {
     return () => {
       game.events.off('ready', onGameReady);
     };
-  }, [battles, startBattle, getScene]);
+  }, [battles, startBattle, reinforceBattle, battleMode, modelsByUnitType, getScene]);
 
   // Sync issues to Phaser
   useEffect(() => {
@@ -130,6 +165,20 @@ export function GameCanvas() {
     }
   }, [issues, getScene]);
 
+  // Battles started from GitHub can target issues opened since the last fetch
+  useEffect(() => {
+    const missing = battles.filter(
+      (b) =>
+        isBattleActive(b.status) &&
+        !issues.some((i) => i.number === b.issueNumber) &&
+        !requestedIssues.current.has(b.issueNumber)
+    );
+    if (missing.length > 0) {
+      missing.forEach((b) => requestedIssues.current.add(b.issueNumber));
+      queryClient.invalidateQueries({ queryKey: ['issues'] });
+    }
+  }, [battles, issues, queryClient]);
+
   // Sync battles to Phaser
   useEffect(() => {
     const scene = getScene();
@@ -138,6 +187,21 @@ export function GameCanvas() {
     }
   }, [battles, getScene]);
 
+  // Sync autopilot settings to Phaser
+  useEffect(() => {
+    const scene = getScene();
+    if (scene?.scene.isActive()) {
+      scene.setAutopilot(autopilot);
+    }
+  }, [autopilot, getScene]);
+
+  useEffect(() => {
+    const scene = getScene();
+    if (autopilotStats && scene?.scene.isActive()) {
+      scene.setAutopilotStats(autopilotStats);
+    }
+  }, [autopilotStats, getScene]);
+
   return (
     <>
       <div
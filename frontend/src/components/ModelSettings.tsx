@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { UNIT_TYPES, UNIT_PERSONALITIES } from '../types';
+import type { ModelRef, UnitType } from '../types';
+
+// =============================================================================
+// MODEL SETTINGS
+// =============================================================================
+// Modal for choosing the provider/model each unit type runs on in new battles.
+
+interface ModelSettingsProps {
+  onClose: () => void;
+}
+
+function formatModel(model?: ModelRef): string {
+  return model ? `${model.providerID}/${model.modelID}` : '';
+}
+
+// "provider/model" - the model ID itself may contain slashes
+function parseModel(value: string): ModelRef | null {
+  const [providerID, ...rest] = value.trim().split('/');
+  const modelID = rest.join('/');
+  return providerID && modelID ? { providerID, modelID } : null;
+}
+
+export function ModelSettings({ onClose }: ModelSettingsProps) {
+  const modelsByUnitType = useGameStore((state) => state.modelsByUnitType);
+  const setUnitTypeModel = useGameStore((state) => state.setUnitTypeModel);
+  const [values, setValues] = useState<Record<UnitType, string>>(() => ({
+    knight: formatModel(modelsByUnitType.knight),
+    archer: formatModel(modelsByUnitType.archer),
+    mage: formatModel(modelsByUnitType.mage),
+    spearman: formatModel(modelsByUnitType.spearman),
+  }));
+
+  const invalid = UNIT_TYPES.filter((t) => values[t].trim() && !parseModel(values[t]));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invalid.length > 0) return;
+    for (const unitType of UNIT_TYPES) {
+      setUnitTypeModel(unitType, parseModel(values[unitType]));
+    }
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex justify-center items-center z-[1000]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-game-bg border-2 border-game-border rounded-lg p-6 max-w-md w-[90%] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-white text-lg font-mono mb-2 m-0">Unit Models</h2>
+        <p className="text-game-muted text-xs font-mono mb-4 m-0">
+          provider/model per unit type. Leave empty for the OpenCode default.
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          {UNIT_TYPES.map((unitType) => {
+            const personality = UNIT_PERSONALITIES[unitType];
+            return (
+              <label key={unitType} className="flex items-center gap-3 text-xs font-mono">
+                <span className="w-36 text-gray-400">
+                  {personality.name} ({personality.approach})
+                </span>
+                <input
+                  type="text"
+                  value={values[unitType]}
+                  onChange={(e) => setValues({ ...values, [unitType]: e.target.value })}
+                  placeholder="anthropic/claude-sonnet-4"
+                  className={`flex-1 px-2 py-1.5 bg-game-panel border rounded text-white placeholder:text-gray-600 focus:outline-none focus:border-game-accent ${
+                    invalid.includes(unitType) ? 'border-game-error' : 'border-game-border'
+                  }`}
+                />
+              </label>
+            );
+          })}
+
+          <div className="flex gap-3 justify-end mt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-game-panel border border-game-border rounded text-gray-400 text-sm font-mono cursor-pointer hover:text-white hover:border-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={invalid.length > 0}
+              className="px-4 py-2 bg-game-accent border-none rounded text-white text-sm font-mono cursor-pointer hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
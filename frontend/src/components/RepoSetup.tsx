@@ -14,11 +14,24 @@ export function RepoSetup({ onClose }: RepoSetupProps) {
   const [repoUrl, setRepoUrl] = useState('');
   const [pat, setPat] = useState('');
   const [unitCount, setUnitCount] = useState(10);
+  const [buildCommand, setBuildCommand] = useState('');
+  const [lintCommand, setLintCommand] = useState('');
+  const [testCommand, setTestCommand] = useState('');
   const setConfig = useSetConfig();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    setConfig.mutate({ repoUrl, pat, unitCount }, { onSuccess: onClose });
+    setConfig.mutate(
+      {
+        repoUrl,
+        pat,
+        unitCount,
+        buildCommand: buildCommand.trim() || undefined,
+        lintCommand: lintCommand.trim() || undefined,
+        testCommand: testCommand.trim() || undefined,
+      },
+      { onSuccess: onClose }
+    );
   };
 
   return (
@@ -68,6 +81,33 @@ export function RepoSetup({ onClose }: RepoSetupProps) {
             />
           </Field>
 
+          <Field
+            label="Verification Commands (optional)"
+            hint="Run in each agent's worktree before its changes count as a success"
+          >
+            <input
+              type="text"
+              value={buildCommand}
+              onChange={(e) => setBuildCommand(e.target.value)}
+              placeholder="Build, e.g. npm ci && npm run build"
+              className="w-full px-3 py-2.5 text-sm font-mono bg-game-panel border border-game-border rounded text-white placeholder:text-gray-500 focus:outline-none focus:border-game-accent"
+            />
+            <input
+              type="text"
+              value={lintCommand}
+              onChange={(e) => setLintCommand(e.target.value)}
+              placeholder="Lint, e.g. npm run lint"
+              className="w-full px-3 py-2.5 text-sm font-mono bg-game-panel border border-game-border rounded text-white placeholder:text-gray-500 focus:outline-none focus:border-game-accent"
+            />
+            <input
+              type="text"
+              value={testCommand}
+              onChange={(e) => setTestCommand(e.target.value)}
+              placeholder="Test, e.g. npm test"
+              className="w-full px-3 py-2.5 text-sm font-mono bg-game-panel border border-game-border rounded text-white placeholder:text-gray-500 focus:outline-none focus:border-game-accent"
+            />
+          </Field>
+
           {setConfig.error && (
             <p className="text-red-400 text-sm font-mono m-0">
               {setConfig.error.message}
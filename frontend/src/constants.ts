@@ -23,6 +23,7 @@ export const UNIT_SPEED = 150;
 // -----------------------------------------------------------------------------
 export const PROXIMITY_RADIUS = 50;
 export const ENGAGE_RADIUS = 100; // PROXIMITY_RADIUS + buffer
+export const AUTOPILOT_TICK_MS = 1000; // How often autopilot looks for idle units
 
 // -----------------------------------------------------------------------------
 // Enemy Configuration
@@ -59,6 +60,10 @@ export const COLORS = {
   // Battle effects
   battle: 0xffff00,
   battleInner: 0xffaa00,
+  battleQueued: 0x8888ff,
+  battleBlocked: 0xff8800,
+  battleReview: 0xff88ff,
+  battleArrival: 0x66ccff,
   victory: 0x00ff00,
   victoryInner: 0x88ff88,
   defeat: 0xff0000,
@@ -70,6 +75,7 @@ export const COLORS = {
   // Agent status
   agentPending: 0x444444,
   agentWorking: 0xffff00,
+  agentVerifying: 0x00ffff,
   agentSuccess: 0x00ff00,
   agentFailed: 0xff0000,
   agentCancelled: 0x888888,
@@ -88,6 +94,7 @@ export const ANIMATION = {
   resultEffect: 1500,
   idleBob: 1000,
   targetHighlightPulse: 500,
+  arrival: 2500,
 } as const;
 
 // -----------------------------------------------------------------------------
@@ -105,6 +112,7 @@ export const SPRITE_SIZES = {
 export const AGENT_STATUS_COLORS = {
   pending: '#444444',
   working: '#ffff00',
+  verifying: '#00ffff',
   success: '#00ff00',
   failed: '#ff0000',
   cancelled: '#888888',
@@ -114,8 +122,12 @@ export const AGENT_STATUS_COLORS = {
 // Battle Status Colors (for React components - CSS hex strings)
 // -----------------------------------------------------------------------------
 export const BATTLE_STATUS_COLORS = {
+  queued: '#8888ff',
   pending: '#888888',
   fighting: '#ffff00',
+  judging: '#00ffff',
+  awaiting_review: '#ff88ff',
   victory: '#00ff00',
   defeat: '#ff4444',
+  interrupted: '#ff8800',
 } as const;
@@ -1,11 +1,15 @@
 import Phaser from 'phaser';
 import type { Battle } from '../../types';
+import { COLORS } from '../../constants';
 
 export class BattleEffect extends Phaser.GameObjects.Container {
   private battle: Battle;
   private effectSprite: Phaser.GameObjects.Sprite;
   private statusText: Phaser.GameObjects.Text;
   private agentIndicators: Phaser.GameObjects.Graphics;
+  private spinTween: Phaser.Tweens.Tween;
+  // Blinking marker while an agent waits for a permission answer
+  private alertText: Phaser.GameObjects.Text;
 
   constructor(scene: Phaser.Scene, x: number, y: number, battle: Battle) {
     super(scene, x, y);
@@ -16,8 +20,8 @@ export class BattleEffect extends Phaser.GameObjects.Container {
     this.effectSprite.setAlpha(0.7);
     this.add(this.effectSprite);
 
-    // Add rotation animation
-    scene.tweens.add({
+    // Add rotation animation (paused while the battle waits in the queue)
+    this.spinTween = scene.tweens.add({
       targets: this.effectSprite,
       rotation: Math.PI * 2,
       duration: 2000,
@@ -42,14 +46,68 @@ export class BattleEffect extends Phaser.GameObjects.Container {
     this.statusText.setOrigin(0.5, 0);
     this.add(this.statusText);
 
+    // Permission alert
+    this.alertText = scene.add.text(0, -50, '⚠ NEEDS INPUT', {
+      font: 'bold 12px monospace',
+      color: '#ff8800',
+    });
+    this.alertText.setOrigin(0.5, 1);
+    this.alertText.setVisible(false);
+    this.add(this.alertText);
+    scene.tweens.add({
+      targets: this.alertText,
+      alpha: { from: 1, to: 0.2 },
+      duration: 400,
+      yoyo: true,
+      repeat: -1,
+    });
+
     // Agent status indicators
     this.agentIndicators = scene.add.graphics();
     this.add(this.agentIndicators);
     this.updateAgentIndicators();
+    this.applyStatus();
 
     scene.add.existing(this);
   }
 
+  private applyStatus(): void {
+    if (this.battle.status === 'queued') {
+      const position = this.battle.queuePosition !== undefined
+        ? ` #${this.battle.queuePosition + 1}`
+        : '';
+      this.statusText.setText(`QUEUED${position}`);
+      this.statusText.setColor('#8888ff');
+      this.effectSprite.setTint(COLORS.battleQueued);
+      this.spinTween.pause();
+    } else if (this.battle.status === 'judging') {
+      this.statusText.setText('JUDGING');
+      this.statusText.setColor('#00ffff');
+      this.effectSprite.clearTint();
+      this.spinTween.resume();
+    } else if (this.battle.status === 'awaiting_review') {
+      // Nothing is running, the battle waits for a human pick
+      this.statusText.setText('AWAITING REVIEW');
+      this.statusText.setColor('#ff88ff');
+      this.effectSprite.setTint(COLORS.battleReview);
+      this.spinTween.pause();
+    } else {
+      this.statusText.setText('FIGHTING');
+      this.statusText.setColor('#ffff00');
+      this.effectSprite.clearTint();
+      this.spinTween.resume();
+    }
+
+    // A battle blocked on a human stands out regardless of its status
+    const blocked = this.battle.agents.some(
+      (agent) => agent.status === 'working' && agent.detailedState?.pendingPermission
+    );
+    this.alertText.setVisible(blocked);
+    if (blocked) {
+      this.effectSprite.setTint(COLORS.battleBlocked);
+    }
+  }
+
   private updateAgentIndicators(): void {
     this.agentIndicators.clear();
 
@@ -64,6 +122,9 @@ export class BattleEffect extends Phaser.GameObjects.Container {
         case 'working':
           color = 0xffff00; // Yellow
           break;
+        case 'verifying':
+          color = 0x00ffff; // Cyan
+          break;
         case 'success':
           color = 0x00ff00; // Green
           break;
@@ -85,6 +146,7 @@ export class BattleEffect extends Phaser.GameObjects.Container {
   setBattle(battle: Battle): void {
     this.battle = battle;
     this.updateAgentIndicators();
+    this.applyStatus();
   }
 
   update(): void {
@@ -0,0 +1,122 @@
+import Phaser from 'phaser';
+import type { AutopilotSettings, AutopilotStats, Battle } from '../../types';
+import { isBattleActive } from '../../types';
+import type { Unit } from '../entities/Unit';
+import type { IssueEnemy } from '../entities/IssueEnemy';
+import type { BattleManager } from './BattleManager';
+import { getAutopilotBlocker, rankIssues } from '../../utils/autopilot';
+import { ENGAGE_RADIUS } from '../../constants';
+
+// =============================================================================
+// AUTOPILOT MANAGER
+// =============================================================================
+// Sends idle units to the best eligible issue while autopilot is on.
+// Units march through a normal attack intent, so battles start, end and
+// animate exactly like ones the player ordered.
+
+// Give up on a dispatch whose battle never showed up (e.g. it failed to start)
+const DISPATCH_TIMEOUT_MS = 60000;
+
+interface Dispatch {
+  units: Unit[];
+  at: number;
+}
+
+export class AutopilotManager {
+  private battleManager: BattleManager;
+  private settings: AutopilotSettings | null = null;
+  private battles: Battle[] = [];
+  // Token usage and lost issues as the server last reported them
+  private stats: AutopilotStats | undefined;
+  // Issues lost before are never retried automatically. Defeats seen here
+  // count right away, before the server's stats catch up.
+  private defeatedIssues: Set<number> = new Set();
+  // Issue number -> units sent there whose battle hasn't shown up yet
+  private dispatches: Map<number, Dispatch> = new Map();
+
+  constructor(battleManager: BattleManager) {
+    this.battleManager = battleManager;
+  }
+
+  setSettings(settings: AutopilotSettings): void {
+    this.settings = settings;
+  }
+
+  setStats(stats: AutopilotStats): void {
+    this.stats = stats;
+    stats.defeatedIssues.forEach((issueNumber) => this.defeatedIssues.add(issueNumber));
+  }
+
+  syncBattles(battles: Battle[]): void {
+    this.battles = battles;
+    battles.forEach((b) => {
+      // Cancelled battles and ones that failed to start don't count as lost
+      if (b.status === 'defeat' && b.defeatReason === 'agents_failed') {
+        this.defeatedIssues.add(b.issueNumber);
+      }
+      if (isBattleActive(b.status)) {
+        this.dispatches.delete(b.issueNumber);
+      }
+    });
+  }
+
+  // Called on a timer by the scene, at most one new battle per tick
+  tick(units: Unit[], enemies: Map<number, IssueEnemy>): void {
+    const now = Date.now();
+    for (const [issueNumber, dispatch] of this.dispatches) {
+      if (now - dispatch.at > DISPATCH_TIMEOUT_MS) {
+        this.dispatches.delete(issueNumber);
+      }
+    }
+
+    const settings = this.settings;
+    if (!settings?.enabled) return;
+
+    const idle = units.filter((unit) => this.isIdle(unit, enemies));
+    if (idle.length === 0) return;
+
+    if (getAutopilotBlocker(settings, this.battles, this.dispatches.size, this.stats)) return;
+
+    const busyIssues = new Set(
+      [...enemies.keys()].filter(
+        (num) =>
+          this.dispatches.has(num) ||
+          this.battleManager.isInBattle(num) ||
+          this.battleManager.hasIntent(num)
+      )
+    );
+    const issues = [...enemies.values()].map((enemy) => enemy.getIssue());
+    const [next] = rankIssues(issues, settings, busyIssues, this.defeatedIssues);
+    if (!next) return;
+
+    const enemy = enemies.get(next.number)!;
+    const assigned = this.nearestUnits(idle, enemy, settings.unitsPerBattle);
+    this.dispatches.set(next.number, { units: assigned, at: now });
+    this.battleManager.createIntent(next.number, assigned, enemy);
+  }
+
+  private isIdle(unit: Unit, enemies: Map<number, IssueEnemy>): boolean {
+    if (unit.isEngaged() || unit.getTargetIssueNumber() !== null || unit.isMoving()) {
+      return false;
+    }
+    for (const dispatch of this.dispatches.values()) {
+      if (dispatch.units.includes(unit)) return false;
+    }
+    // Units that just arrived at a battle wait there until the server confirms it
+    for (const [issueNumber, enemy] of enemies) {
+      if (
+        this.battleManager.isInBattle(issueNumber) &&
+        Phaser.Math.Distance.Between(unit.x, unit.y, enemy.x, enemy.y) < ENGAGE_RADIUS
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private nearestUnits(units: Unit[], enemy: IssueEnemy, count: number): Unit[] {
+    const distance = (unit: Unit) =>
+      Phaser.Math.Distance.Between(unit.x, unit.y, enemy.x, enemy.y);
+    return [...units].sort((a, b) => distance(a) - distance(b)).slice(0, count);
+  }
+}
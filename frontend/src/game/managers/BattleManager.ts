@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
-import type { Battle } from '../../types';
+import type { Battle, UnitType } from '../../types';
+import { isBattleActive } from '../../types';
 import type { Unit } from '../entities/Unit';
 import type { IssueEnemy } from '../entities/IssueEnemy';
 import { BattleEffect } from '../entities/BattleEffect';
@@ -15,19 +16,24 @@ import {
 // BATTLE MANAGER
 // =============================================================================
 // Handles all battle-related logic:
-// - Attack intents (visual targeting before battle starts)
+// - Attack intents (visual targeting before battle starts, or reinforcements
+//   for a battle already in progress)
 // - Proximity detection (triggering battles when units arrive)
 // - Battle effects (visual feedback during combat)
 // - Battle state synchronization from server
+// - Arrival effects for battles started from GitHub
 
 export interface AttackIntent {
   targetIssueNumber: number;
   assignedUnits: Unit[];
   graphics: Phaser.GameObjects.Graphics;
+  // Set when the units join a battle that is already fighting
+  reinforceBattleId?: string;
 }
 
 export interface BattleCallbacks {
-  onAttackIssue: (issueNumber: number, unitCount: number) => void;
+  onAttackIssue: (issueNumber: number, unitCount: number, unitTypes: UnitType[]) => void;
+  onReinforceBattle: (battleId: string, unitCount: number, unitTypes: UnitType[]) => void;
   onRequestCancelBattle: (battleId: string) => Promise<boolean>;
 }
 
@@ -36,7 +42,12 @@ export class BattleManager {
   private intents: Map<number, AttackIntent> = new Map();
   private effects: Map<string, BattleEffect> = new Map();
   private activeBattleIssues: Set<number> = new Set();
+  // Issue number -> ID of the battle fighting it, for reinforcements
+  private fightingBattles: Map<number, string> = new Map();
   private callbacks: BattleCallbacks | null = null;
+  // Battles already seen, so only new auto-battles get an arrival effect
+  // (null until the first sync, which is history rather than news)
+  private announcedBattles: Set<string> | null = null;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -51,8 +62,9 @@ export class BattleManager {
   // ---------------------------------------------------------------------------
 
   createIntent(issueNumber: number, units: Unit[], enemy: IssueEnemy): void {
-    // Don't create intent if already in battle
-    if (this.activeBattleIssues.has(issueNumber)) return;
+    // An issue already in battle can only take reinforcements while fighting
+    const reinforceBattleId = this.fightingBattles.get(issueNumber);
+    if (this.activeBattleIssues.has(issueNumber) && !reinforceBattleId) return;
 
     // Clean up existing intent for this issue
     this.removeIntent(issueNumber);
@@ -77,6 +89,7 @@ export class BattleManager {
       targetIssueNumber: issueNumber,
       assignedUnits: [...units],
       graphics,
+      reinforceBattleId,
     });
 
     // Move units toward enemy in formation
@@ -126,10 +139,22 @@ export class BattleManager {
 
   private triggerBattle(issueNumber: number, intent: AttackIntent): void {
     const unitCount = intent.assignedUnits.length;
+    const unitTypes = intent.assignedUnits.map((u) => u.getUnitType());
 
     // Clean up intent visuals
     this.removeIntent(issueNumber);
 
+    const { reinforceBattleId } = intent;
+    if (reinforceBattleId) {
+      // Join the fight right away - the battle effect already exists
+      intent.assignedUnits.forEach((u) => {
+        u.clearTarget();
+        u.engage(reinforceBattleId);
+      });
+      this.callbacks?.onReinforceBattle(reinforceBattleId, unitCount, unitTypes);
+      return;
+    }
+
     // Mark as active battle
     this.activeBattleIssues.add(issueNumber);
 
@@ -137,7 +162,7 @@ export class BattleManager {
     intent.assignedUnits.forEach((u) => u.clearTarget());
 
     // Notify React to start the battle
-    this.callbacks?.onAttackIssue(issueNumber, unitCount);
+    this.callbacks?.onAttackIssue(issueNumber, unitCount, unitTypes);
   }
 
   // ---------------------------------------------------------------------------
@@ -145,18 +170,29 @@ export class BattleManager {
   // ---------------------------------------------------------------------------
 
   syncBattles(battles: Battle[], enemies: Map<number, IssueEnemy>, units: Unit[]): void {
+    this.announceArrivals(battles, enemies);
+
     // Update which issues have active battles
     this.activeBattleIssues.clear();
+    this.fightingBattles.clear();
     battles.forEach((b) => {
-      if (b.status === 'pending' || b.status === 'fighting') {
+      if (isBattleActive(b.status)) {
         this.activeBattleIssues.add(b.issueNumber);
       }
+      if (b.status === 'fighting') {
+        this.fightingBattles.set(b.issueNumber, b.id);
+      }
     });
 
     // Clean up finished battle effects
     for (const [battleId, effect] of this.effects) {
       const battle = battles.find((b) => b.id === battleId);
-      if (!battle || battle.status === 'victory' || battle.status === 'defeat') {
+      if (
+        !battle ||
+        battle.status === 'victory' ||
+        battle.status === 'defeat' ||
+        battle.status === 'interrupted'
+      ) {
         effect.destroy();
         this.effects.delete(battleId);
 
@@ -169,9 +205,14 @@ export class BattleManager {
       }
     }
 
-    // Create/update battle effects
+    // Create/update battle effects (queued battles wait at the enemy)
     battles.forEach((battle) => {
-      if (battle.status === 'fighting') {
+      if (
+        battle.status === 'fighting' ||
+        battle.status === 'queued' ||
+        battle.status === 'judging' ||
+        battle.status === 'awaiting_review'
+      ) {
         const enemy = enemies.get(battle.issueNumber);
         if (enemy && !this.effects.has(battle.id)) {
           // Create battle effect
@@ -232,6 +273,65 @@ export class BattleManager {
     });
   }
 
+  private announceArrivals(battles: Battle[], enemies: Map<number, IssueEnemy>): void {
+    if (!this.announcedBattles) {
+      this.announcedBattles = new Set(battles.map((b) => b.id));
+      return;
+    }
+
+    for (const battle of battles) {
+      if (this.announcedBattles.has(battle.id)) continue;
+      if (!battle.trigger) {
+        this.announcedBattles.add(battle.id);
+        continue;
+      }
+
+      // The issue may be new to the arena, wait until its enemy shows up
+      const enemy = enemies.get(battle.issueNumber);
+      if (!enemy) continue;
+
+      this.announcedBattles.add(battle.id);
+      const via = battle.trigger.source === 'label' ? 'label' : '/swarm';
+      this.showArrivalEffect(
+        enemy.x,
+        enemy.y,
+        `⚡ ${battle.unitCount} units · ${via} by @${battle.trigger.sender}`
+      );
+    }
+  }
+
+  private showArrivalEffect(x: number, y: number, message: string): void {
+    const ring = this.scene.add.graphics();
+    ring.lineStyle(4, COLORS.battleArrival, 1);
+    ring.strokeCircle(0, 0, 30);
+    ring.setPosition(x, y);
+
+    this.scene.tweens.add({
+      targets: ring,
+      scale: { from: 3, to: 0.8 },
+      alpha: { from: 0, to: 1 },
+      duration: ANIMATION.arrival / 2,
+      ease: 'Back.easeOut',
+      yoyo: true,
+      onComplete: () => ring.destroy(),
+    });
+
+    const text = this.scene.add.text(x, y - 60, message, {
+      font: 'bold 12px monospace',
+      color: '#66ccff',
+    });
+    text.setOrigin(0.5, 1);
+
+    this.scene.tweens.add({
+      targets: text,
+      y: y - 90,
+      alpha: { from: 1, to: 0 },
+      duration: ANIMATION.arrival,
+      ease: 'Power1',
+      onComplete: () => text.destroy(),
+    });
+  }
+
   private showResultEffect(x: number, y: number, isVictory: boolean): void {
     const texture = isVictory ? 'victory-effect' : 'defeat-effect';
     const effect = this.scene.add.sprite(x, y, texture);
@@ -262,6 +362,10 @@ export class BattleManager {
     return this.activeBattleIssues.has(issueNumber);
   }
 
+  hasIntent(issueNumber: number): boolean {
+    return this.intents.has(issueNumber);
+  }
+
   getEngagedBattleForUnits(units: Unit[]): string | null {
     for (const unit of units) {
       const battleId = unit.getEngagedBattleId();
@@ -10,7 +10,7 @@ import { COLORS } from '../../constants';
 // - Left click: Select single unit or start drag selection
 // - Shift+click: Add to selection
 // - Drag: Box selection
-// - Right click: Move or attack command
+// - Right click: Move or attack command (reinforces an enemy already in battle)
 
 export interface InputCallbacks {
   onMoveUnits: (units: Unit[], x: number, y: number) => void;
@@ -3,7 +3,8 @@ import { Unit } from '../entities/Unit';
 import { IssueEnemy } from '../entities/IssueEnemy';
 import { BattleManager } from '../managers/BattleManager';
 import { InputManager } from '../managers/InputManager';
-import type { GitHubIssue, Battle, UnitType } from '../../types';
+import { AutopilotManager } from '../managers/AutopilotManager';
+import type { AutopilotSettings, AutopilotStats, GitHubIssue, Battle, UnitType } from '../../types';
 import { UNIT_TYPES } from '../../types';
 import {
   GAME_WIDTH,
@@ -17,6 +18,7 @@ import {
   ENEMY_START_Y,
   ENEMY_SPACING,
   COLORS,
+  AUTOPILOT_TICK_MS,
 } from '../../constants';
 
 // =============================================================================
@@ -26,10 +28,12 @@ import {
 // Logic is delegated to managers for clarity:
 // - BattleManager: Attack intents, proximity detection, battle effects
 // - InputManager: Selection and movement commands
+// - AutopilotManager: Sending idle units to issues on their own
 
 // Callback interface for React communication
 export interface GameCallbacks {
-  onAttackIssue: (issueNumber: number, unitCount: number) => void;
+  onAttackIssue: (issueNumber: number, unitCount: number, unitTypes: UnitType[]) => void;
+  onReinforceBattle: (battleId: string, unitCount: number, unitTypes: UnitType[]) => void;
   onRequestCancelBattle: (battleId: string) => Promise<boolean>;
 }
 
@@ -38,6 +42,7 @@ export class ArenaScene extends Phaser.Scene {
   private enemies: Map<number, IssueEnemy> = new Map();
   private battleManager!: BattleManager;
   private inputManager!: InputManager;
+  private autopilotManager!: AutopilotManager;
 
   constructor() {
     super({ key: "ArenaScene" });
@@ -54,6 +59,14 @@ export class ArenaScene extends Phaser.Scene {
       onAttackEnemy: this.handleAttackEnemy.bind(this),
       onCancelEngagedUnits: this.handleCancelEngaged.bind(this),
     });
+    this.autopilotManager = new AutopilotManager(this.battleManager);
+
+    // Autopilot decisions don't need to run every frame
+    this.time.addEvent({
+      delay: AUTOPILOT_TICK_MS,
+      loop: true,
+      callback: () => this.autopilotManager.tick(this.units, this.enemies),
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -64,6 +77,14 @@ export class ArenaScene extends Phaser.Scene {
     this.battleManager.setCallbacks(callbacks);
   }
 
+  setAutopilot(settings: AutopilotSettings): void {
+    this.autopilotManager.setSettings(settings);
+  }
+
+  setAutopilotStats(stats: AutopilotStats): void {
+    this.autopilotManager.setStats(stats);
+  }
+
   updateIssues(issues: GitHubIssue[]): void {
     // Remove enemies no longer in the list
     const issueNums = new Set(issues.map((i) => i.number));
@@ -97,6 +118,7 @@ export class ArenaScene extends Phaser.Scene {
   updateBattles(battles: Battle[]): void {
     // Sync battle state to manager
     this.battleManager.syncBattles(battles, this.enemies, this.units);
+    this.autopilotManager.syncBattles(battles);
 
     // Remove defeated enemies
     battles.forEach((b) => {
@@ -1,5 +1,18 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Battle } from '../types';
+import { useQuery, useQueries, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import type {
+  AgentDetailedState,
+  AgentDiff,
+  AgentInstance,
+  AutopilotStats,
+  Battle,
+  BattleMode,
+  BattleStreamEvent,
+  ModelRef,
+  TranscriptPage,
+  UnitType,
+} from '../types';
+import { isBattleActive } from '../types';
 import { useGameStore } from '../stores/gameStore';
 
 const API_BASE = '/api';
@@ -10,47 +23,171 @@ const API_BASE = '/api';
 
 export function useBattles() {
   const config = useGameStore((state) => state.config);
+  const streamConnected = useGameStore((state) => state.streamConnected);
 
   return useQuery<Battle[]>({
     queryKey: ['battles'],
     queryFn: async () => {
       const res = await fetch(`${API_BASE}/battles`);
       if (!res.ok) throw new Error('Failed to fetch battles');
-      const data: Battle[] = await res.json();
-
-      // Log detailed state for active battles
-      data.forEach((battle) => {
-        if (battle.status === 'fighting') {
-          battle.agents.forEach((agent) => {
-            if (agent.detailedState) {
-              console.log(
-                `[Agent ${agent.id}]`,
-                `activity=${agent.detailedState.activity}`,
-                agent.detailedState.currentTool ? `tool=${agent.detailedState.currentTool}` : '',
-                `tokens=${agent.detailedState.tokens.input + agent.detailedState.tokens.output}`,
-                `files=${agent.detailedState.filesModified.length}`,
-                `steps=${agent.detailedState.stepsCompleted}`,
-                agent.detailedState.pendingPermission ? `⚠️ PERMISSION: ${agent.detailedState.pendingPermission.title}` : ''
-              );
-            }
-          });
-        }
-      });
-
-      return data;
+      return res.json();
     },
     enabled: !!config?.configured,
-    // Dynamic polling: 500ms when active battles exist, 10s otherwise
+    // The event stream keeps the cache current; poll only while it's down:
+    // 500ms when active battles exist, 10s otherwise
     refetchInterval: (query) => {
+      if (streamConnected) return false;
       const battles = query.state.data;
-      const hasActive = battles?.some(
-        (b) => b.status === 'pending' || b.status === 'fighting'
-      );
+      const hasActive = battles?.some((b) => isBattleActive(b.status));
       return hasActive ? 500 : 10000;
     },
   });
 }
 
+// =============================================================================
+// BATTLE EVENT STREAM
+// =============================================================================
+
+function applyStreamEvent(battles: Battle[], event: BattleStreamEvent): Battle[] {
+  switch (event.type) {
+    case 'snapshot':
+      return event.battles;
+    case 'battle':
+      return battles.some((b) => b.id === event.battle.id)
+        ? battles.map((b) => (b.id === event.battle.id ? event.battle : b))
+        : [...battles, event.battle];
+    case 'battle_removed':
+      return battles.filter((b) => b.id !== event.battleId);
+    case 'progress':
+      return battles.map((battle) =>
+        battle.id !== event.battleId
+          ? battle
+          : {
+              ...battle,
+              agents: battle.agents.map((agent) => {
+                if (agent.id !== event.agentId) return agent;
+                const detailedState = { ...agent.detailedState, ...event.detailedState };
+                for (const key of event.cleared) {
+                  delete detailedState[key];
+                }
+                return {
+                  ...agent,
+                  detailedState: detailedState as AgentDetailedState,
+                  costUsd: event.costUsd,
+                };
+              }),
+            }
+      );
+  }
+}
+
+// Keeps the battles cache current from the server's event stream. Mount once;
+// useBattles falls back to polling whenever the stream is down.
+export function useBattleStream() {
+  const queryClient = useQueryClient();
+  const configured = useGameStore((state) => !!state.config?.configured);
+  const setStreamConnected = useGameStore((state) => state.setStreamConnected);
+
+  useEffect(() => {
+    if (!configured) return;
+
+    const source = new EventSource(`${API_BASE}/battles/events`);
+    const onEvent = (message: MessageEvent<string>) => {
+      const event: BattleStreamEvent = JSON.parse(message.data);
+      // Every (re)connect starts with a snapshot, so the cache is whole again
+      if (event.type === 'snapshot') {
+        setStreamConnected(true);
+      }
+      queryClient.setQueryData<Battle[]>(['battles'], (battles) =>
+        applyStreamEvent(battles ?? [], event)
+      );
+    };
+
+    for (const type of ['snapshot', 'battle', 'battle_removed', 'progress']) {
+      source.addEventListener(type, onEvent);
+    }
+    // EventSource reconnects by itself, polling covers the gap
+    source.onerror = () => setStreamConnected(false);
+
+    return () => {
+      source.close();
+      setStreamConnected(false);
+    };
+  }, [configured, queryClient, setStreamConnected]);
+}
+
+// =============================================================================
+// TRANSCRIPT HOOK
+// =============================================================================
+
+const TRANSCRIPT_PAGE_SIZE = 50;
+
+// Pages through an agent's transcript, re-polling while the agent is still running
+export function useAgentTranscript(
+  battleId: string,
+  agentId: string,
+  { enabled, live }: { enabled: boolean; live: boolean }
+) {
+  return useInfiniteQuery({
+    queryKey: ['transcript', battleId, agentId],
+    queryFn: async ({ pageParam }): Promise<TranscriptPage> => {
+      const res = await fetch(
+        `${API_BASE}/battles/${battleId}/agents/${agentId}/transcript` +
+          `?offset=${pageParam}&limit=${TRANSCRIPT_PAGE_SIZE}`
+      );
+      if (!res.ok) throw new Error('Failed to fetch transcript');
+      return res.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => {
+      const next = lastPage.offset + lastPage.entries.length;
+      return next < lastPage.total ? next : undefined;
+    },
+    enabled,
+    refetchInterval: live ? 2000 : false,
+  });
+}
+
+// =============================================================================
+// DIFF HOOK
+// =============================================================================
+
+// One query per agent, so adding a candidate to a comparison only fetches that one
+export function useAgentDiffs(battleId: string, agentIds: string[], live: boolean) {
+  return useQueries({
+    queries: agentIds.map((agentId) => ({
+      queryKey: ['diff', battleId, agentId],
+      queryFn: async (): Promise<AgentDiff> => {
+        const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}/diff`);
+        if (!res.ok) {
+          const error = await res.json();
+          throw new Error(error.error || 'Failed to fetch diff');
+        }
+        return res.json();
+      },
+      refetchInterval: live ? 5000 : false,
+    })),
+  });
+}
+
+// =============================================================================
+// AUTOPILOT HOOK
+// =============================================================================
+
+// Today's token usage and lost issues, polled while autopilot needs them
+export function useAutopilotStats(enabled: boolean) {
+  return useQuery<AutopilotStats>({
+    queryKey: ['autopilot-stats'],
+    queryFn: async () => {
+      const res = await fetch(`${API_BASE}/autopilot/stats`);
+      if (!res.ok) throw new Error('Failed to fetch autopilot stats');
+      return res.json();
+    },
+    enabled,
+    refetchInterval: enabled ? 10000 : false,
+  });
+}
+
 // =============================================================================
 // BATTLE MUTATIONS
 // =============================================================================
@@ -58,17 +195,20 @@ export function useBattles() {
 export interface StartBattleParams {
   issueNumber: number;
   unitCount: number;
+  unitTypes?: UnitType[];
+  modelsByUnitType?: Partial<Record<UnitType, ModelRef>>;
+  mode?: BattleMode;
 }
 
 export function useStartBattle() {
   const queryClient = useQueryClient();
 
   return useMutation<Battle, Error, StartBattleParams>({
-    mutationFn: async ({ issueNumber, unitCount }) => {
+    mutationFn: async (params) => {
       const res = await fetch(`${API_BASE}/battles`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ issueNumber, unitCount }),
+        body: JSON.stringify(params),
       });
       if (!res.ok) {
         const error = await res.json();
@@ -82,6 +222,191 @@ export function useStartBattle() {
   });
 }
 
+export interface ReinforceBattleParams {
+  battleId: string;
+  unitCount: number;
+  unitTypes?: UnitType[];
+  modelsByUnitType?: Partial<Record<UnitType, ModelRef>>;
+}
+
+export function useReinforceBattle() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Battle, Error, ReinforceBattleParams>({
+    mutationFn: async ({ battleId, ...params }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to reinforce battle');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export interface AgentActionParams {
+  battleId: string;
+  agentId: string;
+}
+
+export function useCancelAgent() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Battle, Error, AgentActionParams>({
+    mutationFn: async ({ battleId, agentId }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to cancel agent');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export function useRetryAgent() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Battle, Error, AgentActionParams>({
+    mutationFn: async ({ battleId, agentId }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}/retry`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to retry agent');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export function usePromoteAgent() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Battle, Error, AgentActionParams>({
+    mutationFn: async ({ battleId, agentId }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}/promote`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to promote agent');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export function usePushAgentBranch() {
+  return useMutation<
+    { branchName: string; commit: string },
+    Error,
+    AgentActionParams & { branchName: string }
+  >({
+    mutationFn: async ({ battleId, agentId, branchName }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ branchName }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to push branch');
+      }
+      return res.json();
+    },
+  });
+}
+
+export type PermissionResponse = 'once' | 'always' | 'reject';
+
+export function useRespondToPermission() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    void,
+    Error,
+    AgentActionParams & { permissionId: string; response: PermissionResponse }
+  >({
+    mutationFn: async ({ battleId, agentId, permissionId, response }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}/permission`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ permissionId, response }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to respond to permission');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export function useSendAgentMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation<AgentInstance, Error, AgentActionParams & { text: string }>({
+    mutationFn: async ({ battleId, agentId, text }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/agents/${agentId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to send message');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export function useBroadcastMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, { battleId: string; text: string }>({
+    mutationFn: async ({ battleId, text }) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to broadcast message');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
 export function useCancelBattle() {
   const queryClient = useQueryClient();
 
@@ -101,6 +426,48 @@ export function useCancelBattle() {
   });
 }
 
+export function useReorderQueue() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Battle[], Error, string[]>({
+    mutationFn: async (battleIds) => {
+      const res = await fetch(`${API_BASE}/battles/queue`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ battleIds }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to reorder queue');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
+export function useResumeBattle() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Battle, Error, string>({
+    mutationFn: async (battleId) => {
+      const res = await fetch(`${API_BASE}/battles/${battleId}/resume`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to resume battle');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['battles'] });
+    },
+  });
+}
+
 // =============================================================================
 // LOCAL BATTLE MANAGEMENT
 // =============================================================================
@@ -120,7 +487,9 @@ export function useDismissBattle() {
     },
     clearFinished: () => {
       queryClient.setQueryData<Battle[]>(['battles'], (old) =>
-        old?.filter((b) => b.status !== 'victory' && b.status !== 'defeat') ?? []
+        old?.filter(
+          (b) => b.status !== 'victory' && b.status !== 'defeat' && b.status !== 'interrupted'
+        ) ?? []
       );
     },
   };
@@ -35,7 +35,18 @@ export function useSetConfig() {
   const setConfig = useGameStore((state) => state.setConfig);
   const setShowSetup = useGameStore((state) => state.setShowSetup);
 
-  return useMutation<ConfigResponse, Error, { repoUrl: string; pat: string; unitCount?: number }>({
+  return useMutation<
+    ConfigResponse,
+    Error,
+    {
+      repoUrl: string;
+      pat: string;
+      unitCount?: number;
+      buildCommand?: string;
+      lintCommand?: string;
+      testCommand?: string;
+    }
+  >({
     mutationFn: async (input) => {
       const res = await fetch(`${API_BASE}/config`, {
         method: 'POST',
@@ -53,6 +64,10 @@ export function useSetConfig() {
         owner: data.owner,
         repo: data.repo,
         unitCount: data.unitCount,
+        buildCommand: data.buildCommand,
+        lintCommand: data.lintCommand,
+        testCommand: data.testCommand,
+        verifyTimeoutSeconds: data.verifyTimeoutSeconds,
         configured: true,
       });
       setShowSetup(false);
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { GameConfig } from '../types';
+import type { AutopilotSettings, BattleMode, GameConfig, ModelRef, UnitType } from '../types';
 
 // =============================================================================
 // GAME STORE
@@ -16,6 +16,22 @@ interface GameState {
   // UI state
   showSetup: boolean;
   setShowSetup: (show: boolean) => void;
+
+  // Battle event stream is open, so battles don't need polling
+  streamConnected: boolean;
+  setStreamConnected: (connected: boolean) => void;
+
+  // How new battles pick their winner
+  battleMode: BattleMode;
+  setBattleMode: (mode: BattleMode) => void;
+
+  // Model per unit type for new battles (unset = OpenCode's default)
+  modelsByUnitType: Partial<Record<UnitType, ModelRef>>;
+  setUnitTypeModel: (unitType: UnitType, model: ModelRef | null) => void;
+
+  // Idle units attack eligible issues on their own while enabled
+  autopilot: AutopilotSettings;
+  setAutopilot: (settings: Partial<AutopilotSettings>) => void;
 }
 
 export const useGameStore = create<GameState>((set) => ({
@@ -24,4 +40,34 @@ export const useGameStore = create<GameState>((set) => ({
 
   showSetup: true,
   setShowSetup: (show) => set({ showSetup: show }),
+
+  streamConnected: false,
+  setStreamConnected: (connected) => set({ streamConnected: connected }),
+
+  battleMode: 'race',
+  setBattleMode: (mode) => set({ battleMode: mode }),
+
+  modelsByUnitType: {},
+  setUnitTypeModel: (unitType, model) =>
+    set((state) => {
+      const modelsByUnitType = { ...state.modelsByUnitType };
+      if (model) {
+        modelsByUnitType[unitType] = model;
+      } else {
+        delete modelsByUnitType[unitType];
+      }
+      return { modelsByUnitType };
+    }),
+
+  autopilot: {
+    enabled: false,
+    includeLabels: [],
+    excludeLabels: [],
+    priorityLabels: [],
+    maxConcurrentBattles: 2,
+    unitsPerBattle: 3,
+    dailyTokenBudget: 0,
+  },
+  setAutopilot: (settings) =>
+    set((state) => ({ autopilot: { ...state.autopilot, ...settings } })),
 }));
@@ -34,11 +34,45 @@ export const UNIT_PERSONALITIES: Record<UnitType, UnitPersonality> = {
 // Array of unit types for cycling through distribution
 export const UNIT_TYPES: UnitType[] = ['knight', 'archer', 'mage', 'spearman'];
 
+// Provider and model an agent runs on, as known to OpenCode
+export interface ModelRef {
+  providerID: string;
+  modelID: string;
+}
+
 // Agent status within a battle
-export type AgentStatus = 'pending' | 'working' | 'success' | 'failed' | 'cancelled';
+export type AgentStatus = 'pending' | 'working' | 'verifying' | 'success' | 'failed' | 'cancelled';
+
+// Battle status ('interrupted' = was in flight when the backend stopped)
+export type BattleStatus =
+  | 'queued'
+  | 'pending'
+  | 'fighting'
+  | 'judging'
+  | 'awaiting_review'
+  | 'victory'
+  | 'defeat'
+  | 'interrupted';
+
+// Why a battle ended in defeat. Only 'agents_failed' means the issue was
+// attempted and not solved.
+export type DefeatReason = 'agents_failed' | 'cancelled' | 'start_failed' | 'pr_failed';
+
+// Statuses in which a battle still occupies its issue
+export const ACTIVE_BATTLE_STATUSES: BattleStatus[] = [
+  'queued',
+  'pending',
+  'fighting',
+  'judging',
+  'awaiting_review',
+];
+
+export function isBattleActive(status: BattleStatus): boolean {
+  return ACTIVE_BATTLE_STATUSES.includes(status);
+}
 
-// Battle status
-export type BattleStatus = 'pending' | 'fighting' | 'victory' | 'defeat';
+// How a battle picks its winner: first to finish, best-scored candidate, or a human pick
+export type BattleMode = 'race' | 'judge' | 'review';
 
 // Detailed activity state for real-time tracking
 export type AgentActivity =
@@ -86,15 +120,140 @@ export interface AgentDetailedState {
   completedAt?: number;
 }
 
+export type VerificationStepName = 'build' | 'lint' | 'test';
+
+export interface VerificationStep {
+  name: VerificationStepName;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+  durationMs: number;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  steps: VerificationStep[];
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface JudgeScore {
+  total: number;
+  testsPassed: boolean | null;
+  filesTouched: number;
+  linesAdded: number;
+  linesDeleted: number;
+  reviewerScore: number | null;
+  scoredAt: number;
+}
+
 // Each unit = one OpenCode agent instance
 export interface AgentInstance {
   id: string;
   unitIndex: number;
+  unitType: UnitType;
+  model?: ModelRef;
   status: AgentStatus;
   worktreePath: string;
+  baseCommit?: string;
   sessionId: string | null;
   error?: string;
   detailedState?: AgentDetailedState;
+  verification?: VerificationResult;
+  judgeScore?: JudgeScore;
+  startedAt?: string;
+  // Estimated from the backend's price table, unset if the model has no price
+  costUsd?: number;
+  // Spent by earlier sessions (before respawns, retries and resumes)
+  spentTokens?: number;
+  spentCostUsd?: number;
+  incidents?: AgentIncident[];
+  messages?: AgentMessage[];
+  respawnCount?: number;
+  permissionDecisions?: PermissionDecision[];
+}
+
+// Follow-up instruction sent into an agent's session mid-battle
+export interface AgentMessage {
+  text: string;
+  sentAt: string;
+  broadcast: boolean;
+}
+
+// Why an agent was considered stuck and killed
+export type IncidentKind = 'timeout' | 'stall' | 'loop';
+
+export interface AgentIncident {
+  kind: IncidentKind;
+  message: string;
+  at: string;
+  // Whether the agent was restarted in a fresh worktree afterwards
+  respawned: boolean;
+}
+
+// One part of an agent's conversation, see GET .../agents/:agentId/transcript
+export type TranscriptEntryKind = 'prompt' | 'text' | 'reasoning' | 'tool';
+
+export interface TranscriptEntry {
+  id: string;
+  kind: TranscriptEntryKind;
+  at: string;
+  text?: string;
+  tool?: string;
+  status?: string;
+  title?: string;
+  input?: Record<string, unknown>;
+  output?: string;
+  error?: string;
+}
+
+export interface TranscriptPage {
+  agentId: string;
+  offset: number;
+  limit: number;
+  total: number;
+  entries: TranscriptEntry[];
+}
+
+// An agent's changes against the commit it started from
+export interface AgentDiff {
+  agentId: string;
+  baseCommit: string | null;
+  diff: string;
+  // Read from the worktree, rather than the snapshot taken before cleanup
+  live: boolean;
+}
+
+// Permission request answered by one of the repository's rules
+export interface PermissionDecision {
+  permissionId: string;
+  type: string;
+  title: string;
+  response: 'once' | 'always' | 'reject';
+  ruleIndex: number;
+  decidedAt: string;
+}
+
+// When an agent session counts as stuck
+export interface SessionLimits {
+  timeoutMinutes?: number;
+  stallMinutes?: number;
+  maxRepeatedToolErrors?: number;
+}
+
+// Limits for one agent or a whole battle. Unset limits are unlimited.
+export interface Budget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxMinutes?: number;
+}
+
+export interface BattleTrigger {
+  source: 'label' | 'comment';
+  sender: string;
+  deliveryId: string;
 }
 
 // A "Battle" is a swarm attack on one issue with multiple agents
@@ -110,8 +269,45 @@ export interface Battle {
   completedAt?: string;
   prUrl?: string;
   winningAgentId?: string;
+  defeatReason?: DefeatReason;
+  // Interrupted battle whose worktrees survived and can be restarted
+  resumable?: boolean;
+  // Finished battle whose worktrees are kept for exports until then
+  worktreesExpireAt?: string;
+  // Started from GitHub (label or /swarm comment) rather than from the arena
+  trigger?: BattleTrigger;
+  unitCount: number;
+  unitTypes?: UnitType[];
+  models?: ModelRef[];
+  modelsByUnitType?: Partial<Record<UnitType, ModelRef>>;
+  mode: BattleMode;
+  deadlineMinutes?: number;
+  deadlineAt?: string;
+  reviewer?: boolean;
+  priority?: number;
+  queuedAt?: string;
+  queuePosition?: number;
+  agentBudget?: Budget;
+  battleBudget?: Budget;
+  limits?: SessionLimits;
+  maxRespawns?: number;
 }
 
+// Pushed by GET /api/battles/events: a snapshot first, then changes
+export type BattleStreamEvent =
+  | { type: 'snapshot'; battles: Battle[] }
+  | { type: 'battle'; battle: Battle }
+  | { type: 'battle_removed'; battleId: string }
+  | {
+      type: 'progress';
+      battleId: string;
+      agentId: string;
+      // Only the fields that changed, plus the ones that were unset
+      detailedState: Partial<AgentDetailedState>;
+      cleared: (keyof AgentDetailedState)[];
+      costUsd?: number;
+    };
+
 // GitHub issue
 export interface GitHubIssue {
   id: number;
@@ -121,6 +317,30 @@ export interface GitHubIssue {
   labels: string[];
   state: 'open' | 'closed';
   url: string;
+  createdAt: string;
+}
+
+// What autopilot has to go on beyond the current battle list, kept by the
+// server so removing battles or reloading doesn't reset it
+export interface AutopilotStats {
+  // Tokens used by battles started today (server local time), removed ones included
+  tokensToday: number;
+  // Issues a battle was lost on, never retried automatically
+  defeatedIssues: number[];
+}
+
+// Autopilot sends idle units to open issues on its own
+export interface AutopilotSettings {
+  enabled: boolean;
+  // Only issues with at least one of these labels (any issue if empty)
+  includeLabels: string[];
+  excludeLabels: string[];
+  // Issues with an earlier label in this list go first, then the oldest
+  priorityLabels: string[];
+  maxConcurrentBattles: number;
+  unitsPerBattle: number;
+  // Tokens all battles started today may use, 0 for no limit
+  dailyTokenBudget: number;
 }
 
 // Game configuration
@@ -128,6 +348,10 @@ export interface GameConfig {
   owner: string;
   repo: string;
   unitCount: number;
+  buildCommand?: string;
+  lintCommand?: string;
+  testCommand?: string;
+  verifyTimeoutSeconds?: number;
   configured: boolean;
 }
 
@@ -137,6 +361,19 @@ export interface ConfigResponse {
   owner: string;
   repo: string;
   unitCount: number;
+  buildCommand?: string;
+  lintCommand?: string;
+  testCommand?: string;
+  verifyTimeoutSeconds?: number;
+}
+
+export interface ReconciliationReport {
+  policy: 'cleanup' | 'reattach' | 'report';
+  ranAt: string;
+  worktrees: { found: string[]; removed: string[]; reattached: string[] };
+  branches: { found: string[]; deleted: string[] };
+  ports: { found: number[]; killed: number[] };
+  errors: string[];
 }
 
 export interface HealthResponse {
@@ -146,4 +383,5 @@ export interface HealthResponse {
     github: boolean;
     worktree: boolean;
   };
+  reconciliation: ReconciliationReport | null;
 }
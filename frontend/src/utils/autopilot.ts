@@ -0,0 +1,71 @@
+import type { AutopilotSettings, AutopilotStats, Battle, GitHubIssue } from '../types';
+import { isBattleActive } from '../types';
+
+// =============================================================================
+// AUTOPILOT
+// =============================================================================
+// Which issue idle units should march on next, and whether they may at all.
+// Shared by the arena (which moves the units) and the settings panel.
+
+// Why autopilot can't start another battle right now, or null if it can
+export function getAutopilotBlocker(
+  settings: AutopilotSettings,
+  battles: Battle[],
+  // Battles the arena is about to start (units still marching)
+  marching: number,
+  // From the server, undefined until it has answered
+  stats: AutopilotStats | undefined
+): string | null {
+  const active = battles.filter((b) => isBattleActive(b.status)).length + marching;
+  if (active >= settings.maxConcurrentBattles) {
+    return `${active}/${settings.maxConcurrentBattles} battles running`;
+  }
+  if (settings.dailyTokenBudget > 0) {
+    if (!stats) return 'Waiting for token usage';
+    if (stats.tokensToday >= settings.dailyTokenBudget) return 'Daily token budget spent';
+  }
+  return null;
+}
+
+function matchesLabels(issue: GitHubIssue, settings: AutopilotSettings): boolean {
+  if (settings.excludeLabels.some((label) => issue.labels.includes(label))) {
+    return false;
+  }
+  return (
+    settings.includeLabels.length === 0 ||
+    settings.includeLabels.some((label) => issue.labels.includes(label))
+  );
+}
+
+function priorityRank(issue: GitHubIssue, settings: AutopilotSettings): number {
+  const index = settings.priorityLabels.findIndex((label) => issue.labels.includes(label));
+  return index === -1 ? settings.priorityLabels.length : index;
+}
+
+/**
+ * Eligible issues, best first: matching the label filters, not already in a
+ * battle and never lost before; ordered by priority label, then age.
+ */
+export function rankIssues(
+  issues: GitHubIssue[],
+  settings: AutopilotSettings,
+  // Issues in a battle or with units on their way
+  busyIssues: Set<number>,
+  defeatedIssues: Set<number>
+): GitHubIssue[] {
+  return issues
+    .filter(
+      (issue) =>
+        issue.state === 'open' &&
+        !busyIssues.has(issue.number) &&
+        !defeatedIssues.has(issue.number) &&
+        matchesLabels(issue, settings)
+    )
+    .sort(
+      (a, b) =>
+        priorityRank(a, settings) - priorityRank(b, settings) ||
+        // Older first; issue numbers grow over time if a date is missing
+        (a.createdAt && b.createdAt ? a.createdAt.localeCompare(b.createdAt) : 0) ||
+        a.number - b.number
+    );
+}
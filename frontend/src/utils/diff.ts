@@ -0,0 +1,85 @@
+// =============================================================================
+// UNIFIED DIFF PARSING
+// =============================================================================
+
+export type DiffLineType = 'add' | 'del' | 'context' | 'hunk';
+
+export interface DiffLine {
+  type: DiffLineType;
+  // Line content without the +/-/space prefix (the full header for hunks)
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+export interface DiffFile {
+  path: string;
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  lines: DiffLine[];
+}
+
+const FILE_HEADER = /^diff --git a\/(.*) b\/(.*)$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Split `git diff` output into per-file line lists with line numbers
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  // File headers (---/+++, modes) only appear before the first hunk
+  let inHunk = false;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split('\n')) {
+    const fileMatch = line.match(FILE_HEADER);
+    if (fileMatch) {
+      file = {
+        path: fileMatch[2],
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        lines: [],
+      };
+      files.push(file);
+      inHunk = false;
+      continue;
+    }
+    if (!file) continue;
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      inHunk = true;
+      oldLine = parseInt(hunkMatch[1], 10);
+      newLine = parseInt(hunkMatch[2], 10);
+      file.lines.push({ type: 'hunk', text: line });
+      continue;
+    }
+
+    if (!inHunk) {
+      if (line.startsWith('new file mode')) file.status = 'added';
+      else if (line.startsWith('deleted file mode')) file.status = 'deleted';
+      else if (line.startsWith('rename from')) file.status = 'renamed';
+      else if (line.startsWith('Binary files')) file.binary = true;
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      file.additions++;
+      file.lines.push({ type: 'add', text: line.slice(1), newLine: newLine++ });
+    } else if (line.startsWith('-')) {
+      file.deletions++;
+      file.lines.push({ type: 'del', text: line.slice(1), oldLine: oldLine++ });
+    } else if (line.startsWith(' ')) {
+      file.lines.push({ type: 'context', text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+    // "\ No newline at end of file" and the trailing empty line are skipped
+  }
+
+  return files;
+}
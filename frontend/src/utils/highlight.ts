@@ -0,0 +1,123 @@
+// =============================================================================
+// SYNTAX HIGHLIGHTING
+// =============================================================================
+// Deliberately small: highlights comments, strings, numbers and keywords one
+// line at a time, which is all a diff view has to work with anyway.
+
+export interface HighlightToken {
+  text: string;
+  className?: string;
+}
+
+type Language = 'c-like' | 'python' | 'shell';
+
+const LANGUAGE_BY_EXTENSION: Record<string, Language> = {
+  ts: 'c-like',
+  tsx: 'c-like',
+  js: 'c-like',
+  jsx: 'c-like',
+  mjs: 'c-like',
+  cjs: 'c-like',
+  java: 'c-like',
+  kt: 'c-like',
+  go: 'c-like',
+  rs: 'c-like',
+  c: 'c-like',
+  h: 'c-like',
+  cpp: 'c-like',
+  cs: 'c-like',
+  swift: 'c-like',
+  py: 'python',
+  rb: 'shell',
+  sh: 'shell',
+  bash: 'shell',
+  yml: 'shell',
+  yaml: 'shell',
+  toml: 'shell',
+};
+
+const KEYWORDS: Record<Language, Set<string>> = {
+  'c-like': new Set([
+    'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+    'default', 'defer', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'fn',
+    'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in',
+    'instanceof', 'interface', 'let', 'match', 'mut', 'new', 'null', 'package', 'private',
+    'protected', 'pub', 'public', 'readonly', 'return', 'static', 'struct', 'super', 'switch',
+    'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void',
+    'while', 'yield',
+  ]),
+  python: new Set([
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+    'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import',
+    'in', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return',
+    'self', 'True', 'try', 'while', 'with', 'yield',
+  ]),
+  shell: new Set([
+    'case', 'def', 'do', 'done', 'elif', 'else', 'end', 'esac', 'export', 'false', 'fi',
+    'for', 'function', 'if', 'in', 'local', 'module', 'nil', 'return', 'then', 'true',
+    'while',
+  ]),
+};
+
+const COMMENT_PATTERN: Record<Language, string> = {
+  'c-like': String.raw`\/\/.*|\/\*.*?(?:\*\/|$)`,
+  python: '#.*',
+  shell: '#.*',
+};
+
+const STRING_PATTERN = String.raw`"(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?|` + '`(?:[^`\\\\]|\\\\.)*`?';
+const NUMBER_PATTERN = String.raw`\b\d[\d_]*(?:\.\d+)?\b`;
+const WORD_PATTERN = String.raw`[A-Za-z_$][\w$]*`;
+
+const TOKEN_CLASSES = {
+  comment: 'text-gray-500 italic',
+  string: 'text-amber-200',
+  number: 'text-cyan-300',
+  keyword: 'text-purple-300',
+};
+
+const tokenPatterns = new Map<Language, RegExp>();
+
+function getTokenPattern(language: Language): RegExp {
+  let pattern = tokenPatterns.get(language);
+  if (!pattern) {
+    pattern = new RegExp(
+      `(${COMMENT_PATTERN[language]})|(${STRING_PATTERN})|(${NUMBER_PATTERN})|(${WORD_PATTERN})`,
+      'g'
+    );
+    tokenPatterns.set(language, pattern);
+  }
+  return pattern;
+}
+
+export function getLanguage(path: string): Language | null {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return LANGUAGE_BY_EXTENSION[extension] ?? null;
+}
+
+// Split a line into styled tokens. Unknown languages come back as one plain token.
+export function highlightLine(text: string, language: Language | null): HighlightToken[] {
+  if (!language) return [{ text }];
+
+  const tokens: HighlightToken[] = [];
+  const pattern = getTokenPattern(language);
+  pattern.lastIndex = 0;
+  let last = 0;
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const [value, comment, string, number, word] = match;
+    let className: string | undefined;
+    if (comment) className = TOKEN_CLASSES.comment;
+    else if (string) className = TOKEN_CLASSES.string;
+    else if (number) className = TOKEN_CLASSES.number;
+    else if (word && KEYWORDS[language].has(word)) className = TOKEN_CLASSES.keyword;
+    else continue;
+
+    if (match.index > last) tokens.push({ text: text.slice(last, match.index) });
+    tokens.push({ text: value, className });
+    last = match.index + value.length;
+  }
+
+  if (last < text.length) tokens.push({ text: text.slice(last) });
+  return tokens;
+}